@@ -3,41 +3,75 @@ import { useState, useEffect } from 'react'
 import Viewer from './components/Viewer'
 import MaterialSwatches from './components/MaterialSwatches'
 import DecalList from './components/DecalList'
+import ModelUnitsPanel from './components/ModelUnitsPanel'
+import FontManager from './components/FontManager'
+import LogoCleanupPanel from './components/LogoCleanupPanel'
+import SessionRestoreDialog from './components/SessionRestoreDialog'
+import ExportImageDialog from './components/ExportImageDialog'
+import ExportViewsDialog from './components/ExportViewsDialog'
+import ExportTurntableDialog from './components/ExportTurntableDialog'
+import ExportGLBDialog from './components/ExportGLBDialog'
+import ExportUSDZDialog from './components/ExportUSDZDialog'
+import ExportTechPackDialog from './components/ExportTechPackDialog'
 import * as THREE from 'three'
-import { FiDownload, FiSun, FiTrash, FiUpload } from 'react-icons/fi' // used in floating toggle
+import { FiClock, FiCornerUpLeft, FiCornerUpRight, FiDownload, FiFolder, FiSave, FiSun, FiTrash, FiUpload } from 'react-icons/fi' // used in floating toggle
+import { PROJECT_FILE_EXTENSION, readProjectFile, type ProjectBundle } from './utils/projectFile'
+import { useHistoryStore } from './store/historyStore'
+import { useHistoryShortcuts } from './hooks/useHistoryShortcuts'
+import { useDecalShortcuts } from './hooks/useDecalShortcuts'
+import { useDesignStore } from './store/designStore'
+import { LOGO_RESOLUTIONS } from './utils/logoRaster'
+import { resolveLogoCleanup } from './utils/logoCleanup'
+import { deleteSession, listSessions, loadSession, type SessionSummary } from './utils/sessionDb'
 
 // Note: we reuse Toolbar's GLB/logo/text helpers inline here rather than importing Toolbar.
 // This keeps panel contents colocated for the tabs.
 
 export default function App() {
-  const [logos, setLogos] = useState<File[]>([])
-  const [texts, setTexts] = useState<string[]>([])
-  const [assetSelection, setAssetSelection] = useState<{ type: 'logo' | 'text'; index: number } | null>(null)
-  const [modelRoot, setModelRoot] = useState<THREE.Object3D | null>(null)
+  // design state shared with the 3D scene lives in the design store
+  const logos = useDesignStore((s) => s.logos)
+  const logoResolution = useDesignStore((s) => s.logoResolution)
+  const texts = useDesignStore((s) => s.texts)
+  const assetSelection = useDesignStore((s) => s.assetSelection)
+  const { setLogos, setLogoCleanups, setTexts, setFonts, setAssetSelection } = useDesignStore.getState()
   const [inputKey, setInputKey] = useState(0)
   const [glbUrl, setGlbUrl] = useState<string | null>(null)
   const [modelLoaded, setModelLoaded] = useState(false)
-  const [clearAllDecals, setClearAllDecals] = useState(false)
+  const [modelName, setModelName] = useState('model.glb')
+  // autosave session the current design is written to (IndexedDB)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [showSessions, setShowSessions] = useState(false)
+  const [showImageExport, setShowImageExport] = useState(false)
+  const [showViewsExport, setShowViewsExport] = useState(false)
+  const [showTurntableExport, setShowTurntableExport] = useState(false)
+  const [showGlbExport, setShowGlbExport] = useState(false)
+  const [showUsdzExport, setShowUsdzExport] = useState(false)
+  const [showTechPackExport, setShowTechPackExport] = useState(false)
 
   // UI state
   const [activeTab, setActiveTab] = useState<'Model' | 'Colors' | 'Texts' | 'Logos'>('Model')
   const [canvasBgWhite, setCanvasBgWhite] = useState(false)
-
+  // logo whose clean-up panel is open
+  const [cleaningLogo, setCleaningLogo] = useState<number | null>(null)
+
+  // Undo / redo (Ctrl+Z, Ctrl+Shift+Z)
+  const canUndo = useHistoryStore((s) => s.past.length > 0)
+  const canRedo = useHistoryStore((s) => s.future.length > 0)
+  const undoLabel = useHistoryStore((s) => s.past[s.past.length - 1]?.label)
+  const redoLabel = useHistoryStore((s) => s.future[s.future.length - 1]?.label)
+  useHistoryShortcuts()
+  // Copy / paste / duplicate decals (Ctrl+C, Ctrl+V, Ctrl+D)
+  useDecalShortcuts()
+
+  // Offer to restore an autosaved session on startup
   useEffect(() => {
-    const modelHandler = (e: any) => {
-      const model = e?.detail?.model ?? null
-      setModelRoot(model)
-    }
-    window.addEventListener('modelReady', modelHandler)
-
-    // clear asset selection event from ModelWithDecals
-    const clearSel = () => setAssetSelection(null)
-    window.addEventListener('clearAssetSelection', clearSel)
-
-    return () => {
-      window.removeEventListener('modelReady', modelHandler)
-      window.removeEventListener('clearAssetSelection', clearSel)
-    }
+    listSessions()
+      .then((list) => {
+        setSessions(list)
+        if (list.length) setShowSessions(true)
+      })
+      .catch((err) => console.warn('Could not read saved sessions', err))
   }, [])
 
   useEffect(() => {
@@ -56,25 +90,82 @@ export default function App() {
   const deleteModelAndResetAll = () => {
     // confirmation handled by caller
     // clear model and everything: decals, logos, texts, asset selection
+    // clear decals while the scene is still mounted
+    const { clearDecals, setModelRoot, setPendingProject } = useDesignStore.getState()
+    clearDecals()
+    setModelRoot(null)
+    setPendingProject(null)
+
     if (glbUrl) URL.revokeObjectURL(glbUrl)
     setGlbUrl(null)
-    setLogos([])
-    setTexts([])
+    setLogos(() => [])
+    setLogoCleanups(() => [])
+    setCleaningLogo(null)
+    setTexts(() => [])
+    setFonts(() => [])
     setAssetSelection(null)
-    setModelRoot(null)
     setModelLoaded(false)
     setInputKey((prev) => prev + 1)
-    setClearAllDecals(true)
 
-    // ask ModelWithDecals to clear decals
-    window.dispatchEvent(new CustomEvent('clearDecals'))
-    // notify modelReady null
-    window.dispatchEvent(new CustomEvent('modelReady', { detail: { model: null } }))
+    // history entries point at meshes of the deleted model
+    useHistoryStore.getState().clear()
+    // the autosaved session is kept, so a mistaken delete can be restored
+    setSessionId(null)
+    refreshSessions()
+  }
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => console.warn('Could not read saved sessions', err))
+  }
+
+  // Replace the current design with a project bundle (from a .mockup file or a saved session)
+  const loadProject = (bundle: ProjectBundle, id: string) => {
+    // drop decals of the current model; they are rebuilt from the project once its GLB loads
+    useDesignStore.getState().clearDecals()
+    useHistoryStore.getState().clear()
+    if (glbUrl) URL.revokeObjectURL(glbUrl)
+    setGlbUrl(URL.createObjectURL(bundle.model))
+    setModelName(bundle.manifest.model.name)
+    setLogos(() => bundle.logos)
+    setLogoCleanups(() => bundle.manifest.logos.map((l) => (l.cleanup ? resolveLogoCleanup(l.cleanup) : null)))
+    setCleaningLogo(null)
+    setTexts(() => bundle.manifest.texts)
+    setFonts(() => bundle.fonts)
+    setAssetSelection(null)
+    useDesignStore.getState().setPendingProject(bundle)
+    setSessionId(id)
+    setModelLoaded(true)
+    setInputKey((prev) => prev + 1)
+    setActiveTab('Model')
+  }
+
+  const openProject = async (file: File) => {
+    try {
+      loadProject(await readProjectFile(file), THREE.MathUtils.generateUUID())
+    } catch (err) {
+      console.error('Failed to open project', err)
+      window.alert(`Could not open ${file.name}: ${(err as Error).message}`)
+    }
+  }
+
+  const restoreSession = async (id: string) => {
+    try {
+      const bundle = await loadSession(id)
+      if (!bundle) throw new Error('Session not found')
+      setShowSessions(false)
+      loadProject(bundle, id)
+    } catch (err) {
+      console.error('Failed to restore session', err)
+      window.alert(`Could not restore this session: ${(err as Error).message}`)
+      refreshSessions()
+    }
   }
 
   // model command helpers used by left floating buttons
-  const doModelZoom = (delta: number) => window.dispatchEvent(new CustomEvent('modelCommand', { detail: { action: 'zoom', delta } }))
-  const doModelRotate = (deg: number) => window.dispatchEvent(new CustomEvent('modelCommand', { detail: { action: 'rotate', axis: 'y', deg } }))
+  const doModelZoom = (delta: number) => useDesignStore.getState().modelCommand({ action: 'zoom', delta })
+  const doModelRotate = (deg: number) => useDesignStore.getState().modelCommand({ action: 'rotate', axis: 'y', deg })
 
   // Tab content components
   const ModelTab = (
@@ -97,6 +188,8 @@ export default function App() {
                 if (!f) return
                 const url = URL.createObjectURL(f)
                 setGlbUrl(url)
+                setModelName(f.name)
+                setSessionId(THREE.MathUtils.generateUUID())
                 setModelLoaded(true)
                 setActiveTab('Model')
               }}
@@ -120,12 +213,64 @@ export default function App() {
           </button>
         )}
       </div>
+
+      {!modelLoaded && sessions.length > 0 && (
+        <div className='flex justify-center'>
+          <button
+            className="text-sky-900 underline text-sm inline-flex items-center cursor-pointer"
+            onClick={() => {
+              refreshSessions()
+              setShowSessions(true)
+            }}
+          >
+            <FiClock className="mr-1" />
+            <span>Restore previous session</span>
+          </button>
+        </div>
+      )}
+
+      <label className="block text-sm font-medium text-gray-700 mt-8 mb-2">
+        Project
+      </label>
+
+      <div className='flex justify-center gap-2'>
+        <label className="relative inline-flex items-center px-4 py-2 bg-sky-900 text-white rounded cursor-pointer hover:bg-sky-950 transition">
+          <FiFolder className="mr-2 text-lg cursor-pointer" />
+          <span className='cursor-pointer'>Open Project</span>
+          <input
+            key={inputKey}
+            type="file"
+            accept={PROJECT_FILE_EXTENSION}
+            onChange={(e) => {
+              const f = e.target.files?.[0]
+              if (!f) return
+              if (modelLoaded && !window.confirm('Replace the current design with this project?')) {
+                setInputKey((prev) => prev + 1)
+                return
+              }
+              openProject(f)
+            }}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+
+        <button
+          className={`bg-sky-900 text-white px-4 py-2 rounded inline-flex items-center ${!modelLoaded ? 'opacity-40 cursor-not-allowed' : 'hover:bg-sky-950 cursor-pointer'}`}
+          disabled={!modelLoaded}
+          onClick={() => useDesignStore.getState().saveProject(modelName)}
+        >
+          <FiSave className="mr-2 text-lg" />
+          <span>Save Project</span>
+        </button>
+      </div>
+
+      {modelLoaded && <ModelUnitsPanel />}
     </div>
   )
 
   const ColorsTab = (
     <div>
-      <MaterialSwatches modelRoot={modelRoot} />
+      <MaterialSwatches />
     </div>
   )
 
@@ -175,6 +320,8 @@ export default function App() {
           ))}
         </div>
       </div>
+
+      <FontManager />
     </div>
   )
 
@@ -194,11 +341,8 @@ export default function App() {
               onChange={(e) => {
                 const f = e.target.files?.[0]
                 if (!f) return
-                setLogos(prev => {
-                  const newArr = [...prev, f]
-                  setAssetSelection({ type: 'logo', index: newArr.length - 1 })
-                  return newArr
-                })
+                setLogos(prev => [...prev, f])
+                setAssetSelection({ type: 'logo', index: useDesignStore.getState().logos.length - 1 })
 
                 // Force the input to remount so the same file can be chosen again later.
                 setInputKey(k => k + 1)
@@ -209,40 +353,61 @@ export default function App() {
         </div>
       </div>
 
+      <div>
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <label htmlFor="logo-resolution" className="text-gray-700">Bitmap logo resolution</label>
+          <select
+            id="logo-resolution"
+            className="p-1 border rounded text-black text-xs"
+            value={logoResolution}
+            onChange={(e) => useDesignStore.getState().setLogoResolution(Number(e.target.value))}
+          >
+            {LOGO_RESOLUTIONS.map((size) => <option key={size} value={size}>{size} px</option>)}
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">SVG logos are redrawn from the vector and stay sharp at any size.</p>
+      </div>
+
       <div>
         <h4 className="text-sm font-medium mb-2">Logos</h4>
         <div className="space-y-2">
           {logos.length === 0 && <div className="text-sm text-gray-600">No logos uploaded</div>}
           {logos.map((f, i) => (
-            <div key={i} className={`flex items-center justify-between gap-2 bg-gray-100 p-2 rounded ${i === assetSelection?.index ? 'outline-blue-600 outline-2' : ''}`}>
-              <div className="flex items-center gap-2">
-                <img src={URL.createObjectURL(f)} alt={f.name} className="w-12 h-12 object-contain bg-white/5 rounded" />
-                <div className="text-sm">{f.name}</div>
-              </div>
-              <div className="flex gap-2">
-                <button
-                  className="px-2 py-1 bg-sky-900 text-white rounded text-xs cursor-pointer"
-                  onClick={() => setAssetSelection({ type: 'logo', index: i })}
-                >
-                  Select
-                </button>
-                <button
-                  className="px-2 py-1 bg-red-600 text-white rounded text-xs cursor-pointer"
-                  onClick={() => {
-                    if (!window.confirm('Delete this logo?')) return
-                    // remove logo from assets
-                    setLogos((s) => s.filter((_, idx) => idx !== i))
-                    // if that logo was selected, clear selection
-                    if (assetSelection?.type === 'logo' && assetSelection.index === i) setAssetSelection(null)
-                    // tell ModelWithDecals to remove any decals that reference this logo index
-                    window.dispatchEvent(new CustomEvent('removeLogoAsset', { detail: { index: i } }))
-                    // bump inputKey to allow re-uploading the same file immediately
-                    setInputKey(k => k + 1)
-                  }}
-                >
-                  Delete
-                </button>
+            <div key={i} className={`bg-gray-100 p-2 rounded ${i === assetSelection?.index ? 'outline-blue-600 outline-2' : ''}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <img src={URL.createObjectURL(f)} alt={f.name} className="w-12 h-12 object-contain bg-white/5 rounded" />
+                  <div className="text-sm">{f.name}</div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className="px-2 py-1 bg-sky-900 text-white rounded text-xs cursor-pointer"
+                    onClick={() => setAssetSelection({ type: 'logo', index: i })}
+                  >
+                    Select
+                  </button>
+                  <button
+                    className={`px-2 py-1 rounded text-xs cursor-pointer ${cleaningLogo === i ? 'bg-sky-900 text-white' : 'bg-white text-black'}`}
+                    onClick={() => setCleaningLogo(cleaningLogo === i ? null : i)}
+                  >
+                    Clean up
+                  </button>
+                  <button
+                    className="px-2 py-1 bg-red-600 text-white rounded text-xs cursor-pointer"
+                    onClick={() => {
+                      if (!window.confirm('Delete this logo?')) return
+                      setCleaningLogo(null)
+                      // remove logo from assets along with any decals that reference it
+                      useDesignStore.getState().removeLogoAsset(i)
+                      // bump inputKey to allow re-uploading the same file immediately
+                      setInputKey(k => k + 1)
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
+              {cleaningLogo === i && <LogoCleanupPanel key={i} index={i} file={f} onClose={() => setCleaningLogo(null)} />}
             </div>
           ))}
         </div>
@@ -253,6 +418,68 @@ export default function App() {
   return (
     <div className="h-screen flex">
 
+      {showSessions && (
+        <SessionRestoreDialog
+          sessions={sessions}
+          onRestore={restoreSession}
+          onDelete={(id) => {
+            deleteSession(id)
+              .catch((err) => console.warn('Could not delete session', err))
+              .finally(refreshSessions)
+          }}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {showImageExport && (
+        <ExportImageDialog
+          defaultBackground={canvasBgWhite ? '#f5f5f5' : '#070a12'}
+          onExport={(options) => useDesignStore.getState().exportImage(options)}
+          onClose={() => setShowImageExport(false)}
+        />
+      )}
+
+      {showViewsExport && (
+        <ExportViewsDialog
+          defaultBackground={canvasBgWhite ? '#f5f5f5' : '#070a12'}
+          onExport={(options) => useDesignStore.getState().exportViews(options)}
+          onClose={() => setShowViewsExport(false)}
+        />
+      )}
+
+      {showTurntableExport && (
+        <ExportTurntableDialog
+          defaultBackground={canvasBgWhite ? '#f5f5f5' : '#070a12'}
+          onExport={(options, onProgress) => useDesignStore.getState().exportTurntable(options, onProgress)}
+          onClose={() => setShowTurntableExport(false)}
+        />
+      )}
+
+      {showGlbExport && (
+        <ExportGLBDialog
+          defaultFilename={`${modelName.replace(/\.(glb|gltf)$/i, '')}-mockup`}
+          onExport={(options) => useDesignStore.getState().exportGLB(options)}
+          onClose={() => setShowGlbExport(false)}
+        />
+      )}
+
+      {showUsdzExport && (
+        <ExportUSDZDialog
+          defaultFilename={`${modelName.replace(/\.(glb|gltf)$/i, '')}-mockup`}
+          onExport={(options) => useDesignStore.getState().exportUSDZ(options)}
+          onClose={() => setShowUsdzExport(false)}
+        />
+      )}
+
+      {showTechPackExport && (
+        <ExportTechPackDialog
+          title={modelName}
+          defaultFilename={`${modelName.replace(/\.(glb|gltf)$/i, '')}-tech-pack`}
+          onExport={(options) => useDesignStore.getState().exportTechPack(options)}
+          onClose={() => setShowTechPackExport(false)}
+        />
+      )}
+
       {/* Top-left logo */}
       <div className="absolute top-3 left-3 z-50 flex items-center gap-2">
         <img
@@ -275,6 +502,24 @@ export default function App() {
             <FiSun color='black' strokeWidth={3} size={20} />
           </button>
 
+          <button
+            title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo'}
+            disabled={!canUndo}
+            onClick={() => useHistoryStore.getState().undo()}
+            className={`p-2.5 rounded bg-white/10 ${!canUndo ? 'opacity-40 cursor-not-allowed' : 'hover:bg-white/20'}`}
+          >
+            <FiCornerUpLeft color='black' strokeWidth={3} size={20} />
+          </button>
+
+          <button
+            title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo'}
+            disabled={!canRedo}
+            onClick={() => useHistoryStore.getState().redo()}
+            className={`p-2.5 rounded bg-white/10 ${!canRedo ? 'opacity-40 cursor-not-allowed' : 'hover:bg-white/20'}`}
+          >
+            <FiCornerUpRight color='black' strokeWidth={3} size={20} />
+          </button>
+
           <button
             title="Zoom In"
             disabled={!modelLoaded}
@@ -321,7 +566,7 @@ export default function App() {
 
       {/* Main viewer area */}
       <div className="flex-1 relative">
-        <Viewer glbUrl={glbUrl} logos={logos} texts={texts} assetSelection={assetSelection} bgColor={canvasBgWhite ? '#f5f5f5' : '#070a12'} />
+        <Viewer glbUrl={glbUrl} bgColor={canvasBgWhite ? '#f5f5f5' : '#070a12'} sessionId={sessionId} modelName={modelName} />
       </div>
 
       {/* Right panel */}
@@ -351,31 +596,67 @@ export default function App() {
           {activeTab === 'Texts' && TextsTab}
           {activeTab === 'Logos' && LogosTab}
           <div className={`${activeTab === 'Texts' || activeTab === 'Logos' ? 'block' : 'hidden'} mt-4`}>
-            <DecalList activeTab={activeTab} clearAllDecals={clearAllDecals} />
+            <DecalList activeTab={activeTab} />
           </div>
         </div>
 
 
         {/* Bottom buttons */}
         <div className="mt-8 flex flex-col items-center justify-center gap-2">
-          <div className='flex items-center justify-center gap-2'>
+          <div className='flex flex-wrap items-center justify-center gap-2'>
             <button
               className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
-              onClick={() => window.dispatchEvent(new CustomEvent('exportPNG'))}
+              onClick={() => setShowImageExport(true)}
               disabled={!modelLoaded}
             >
               <FiDownload className="mr-2 text-lg" />
-              <span>Export PNG</span>
+              <span>Export Image</span>
             </button>
 
             <button
               className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
-              onClick={() => window.dispatchEvent(new CustomEvent('exportGLB'))}
+              onClick={() => setShowViewsExport(true)}
+              disabled={!modelLoaded}
+            >
+              <FiDownload className="mr-2 text-lg" />
+              <span>Export Views</span>
+            </button>
+
+            <button
+              className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
+              onClick={() => setShowTurntableExport(true)}
+              disabled={!modelLoaded}
+            >
+              <FiDownload className="mr-2 text-lg" />
+              <span>Export Turntable</span>
+            </button>
+
+            <button
+              className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
+              onClick={() => setShowGlbExport(true)}
               disabled={!modelLoaded}
             >
               <FiDownload className="mr-2 text-lg" />
               <span>Export GLB</span>
             </button>
+
+            <button
+              className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
+              onClick={() => setShowUsdzExport(true)}
+              disabled={!modelLoaded}
+            >
+              <FiDownload className="mr-2 text-lg" />
+              <span>Export USDZ</span>
+            </button>
+
+            <button
+              className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded cursor-pointer inline-flex items-center"
+              onClick={() => setShowTechPackExport(true)}
+              disabled={!modelLoaded}
+            >
+              <FiDownload className="mr-2 text-lg" />
+              <span>Export Tech Pack</span>
+            </button>
           </div>
 
           <button
@@ -384,8 +665,9 @@ export default function App() {
               if (!window.confirm('Reset everything?')) return
 
               // Reset: clear decals and reset model transform
-              window.dispatchEvent(new CustomEvent('clearDecals'))
-              window.dispatchEvent(new CustomEvent('modelCommand', { detail: { action: 'resetTransform' } }))
+              const { clearDecals, modelCommand } = useDesignStore.getState()
+              clearDecals()
+              modelCommand({ action: 'resetTransform' })
             }}
             disabled={!modelLoaded}
           >
@@ -0,0 +1,247 @@
+// src/components/DecalGizmo.tsx
+import { useEffect, useRef } from 'react'
+import * as THREE from 'three'
+import { useFrame, useThree } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import { FiCopy, FiCrosshair, FiTrash } from 'react-icons/fi'
+import { decalModelPosition, decalWorldFrame, wrapDegrees } from '../utils/decalUtils'
+import type { DecalRec } from './ModelWithDecals'
+import { useDesignStore, type SelectionCommand } from '../store/designStore'
+import { useHistoryStore } from '../store/historyStore'
+
+// distance from the top edge to the rotation handle, and from the outline to the toolbar, in pixels
+const ROTATE_HANDLE_GAP = 28
+const TOOLBAR_GAP = 12
+// Shift while rotating snaps to this step, in degrees
+const ROTATE_SNAP = 15
+// corners in the order the outline is drawn: top-left, top-right, bottom-right, bottom-left
+const CORNERS = [[-1, 1], [1, 1], [1, -1], [-1, -1]] as const
+
+type Point = { x: number; y: number }
+type Gesture =
+    | { kind: 'scale'; id: string; distance: number; size: number }
+    | { kind: 'rotate'; id: string; angle: number; rotationDeg: number; sign: number }
+
+// keeps drei's Html layer over the whole canvas instead of following an object
+const fillViewport = (_el: THREE.Object3D, _camera: THREE.Camera, size: { width: number; height: number }) => [size.width / 2, size.height / 2]
+
+// counter-clockwise on screen, in degrees
+const screenAngle = (from: Point, to: Point) => THREE.MathUtils.radToDeg(Math.atan2(from.y - to.y, to.x - from.x))
+
+/**
+ * Selection outline, corner handles to scale, a handle to rotate around the
+ * surface normal and a toolbar (duplicate, delete, center) for the selected
+ * decal, plus lighter outlines for the rest of a multi-selection. Everything
+ * drives store.selectionCommand, so the whole selection follows the primary
+ * decal; the overlay is plain DOM, so it never shows up in exports.
+ */
+export default function DecalGizmo() {
+    const { camera, size } = useThree()
+    const rootRef = useRef<HTMLDivElement>(null)
+    const outlineRef = useRef<SVGPolygonElement>(null)
+    const othersRef = useRef<SVGPathElement>(null)
+    const stemRef = useRef<SVGLineElement>(null)
+    const cornerRefs = useRef<(HTMLDivElement | null)[]>([])
+    const rotateRef = useRef<HTMLDivElement>(null)
+    const toolbarRef = useRef<HTMLDivElement>(null)
+    // selected decal's center on screen, and whether it faces the camera, as of the last frame
+    const centerRef = useRef<Point>({ x: 0, y: 0 })
+    const facingRef = useRef(true)
+    const gestureRef = useRef<Gesture | null>(null)
+    // latest drag update, applied once per animation frame
+    const pendingRef = useRef<(() => void) | null>(null)
+
+    // a gizmo removed mid-gesture still closes the gesture's undo step
+    useEffect(() => () => {
+        if (gestureRef.current) useHistoryStore.getState().commit(true)
+    }, [])
+
+    useFrame(() => {
+        const root = rootRef.current
+        if (!root) return
+        const { decals, selectedId, selectedIds, assetSelection } = useDesignStore.getState()
+        const rec = selectedId ? decals.find(d => d.id === selectedId) : undefined
+        const frame = rec && !assetSelection ? decalWorldFrame(rec) : null
+        const toScreen = (v: THREE.Vector3): Point | null => {
+            const p = v.clone().project(camera)
+            return p.z > 1 ? null : { x: ((p.x + 1) / 2) * size.width, y: ((1 - p.y) / 2) * size.height }
+        }
+        const outline = (f: NonNullable<ReturnType<typeof decalWorldFrame>>) => CORNERS.map(([sx, sy]) => toScreen(f.center.clone()
+            .addScaledVector(f.right, (sx * f.width) / 2)
+            .addScaledVector(f.up, (sy * f.height) / 2)))
+        const center = frame && toScreen(frame.center)
+        const corners = frame && outline(frame)
+        if (!frame || !center || !corners || corners.some(c => !c)) {
+            root.style.display = 'none'
+            return
+        }
+        root.style.display = ''
+        const points = corners as Point[]
+        centerRef.current = center
+        facingRef.current = frame.normal.dot(camera.getWorldPosition(new THREE.Vector3()).sub(frame.center)) >= 0
+
+        outlineRef.current?.setAttribute('points', points.map(p => `${p.x},${p.y}`).join(' '))
+        // the rest of the selection, outline only
+        const others = decals
+            .filter(d => d.id !== selectedId && selectedIds.includes(d.id))
+            .map(d => decalWorldFrame(d))
+            .map(f => f && outline(f))
+            .filter((c): c is Point[] => !!c && c.every(p => p))
+        othersRef.current?.setAttribute('d', others.map(c => `M${c.map(p => `${p.x},${p.y}`).join('L')}Z`).join(''))
+        points.forEach((p, i) => {
+            const el = cornerRefs.current[i]
+            if (!el) return
+            el.style.left = `${p.x}px`
+            el.style.top = `${p.y}px`
+        })
+
+        // rotation handle above the middle of the top edge, pointing away from the center
+        const top = { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 }
+        const away = new THREE.Vector2(top.x - center.x, top.y - center.y)
+        if (away.lengthSq() < 1e-6) away.set(0, -1)
+        away.normalize()
+        const handle = { x: top.x + away.x * ROTATE_HANDLE_GAP, y: top.y + away.y * ROTATE_HANDLE_GAP }
+        if (rotateRef.current) {
+            rotateRef.current.style.left = `${handle.x}px`
+            rotateRef.current.style.top = `${handle.y}px`
+        }
+        stemRef.current?.setAttribute('x1', `${top.x}`)
+        stemRef.current?.setAttribute('y1', `${top.y}`)
+        stemRef.current?.setAttribute('x2', `${handle.x}`)
+        stemRef.current?.setAttribute('y2', `${handle.y}`)
+
+        // toolbar centered above everything else
+        if (toolbarRef.current) {
+            const highest = Math.min(handle.y, ...points.map(p => p.y))
+            toolbarRef.current.style.left = `${center.x}px`
+            toolbarRef.current.style.top = `${highest - TOOLBAR_GAP}px`
+        }
+    })
+
+    const send = (update: () => void) => {
+        const pending = pendingRef.current
+        pendingRef.current = update
+        if (pending) return
+        requestAnimationFrame(() => {
+            const latest = pendingRef.current
+            pendingRef.current = null
+            latest?.()
+        })
+    }
+
+    // The selection changes by how much the primary decal is off from the gesture's target,
+    // measured when the update runs, so the others keep their own sizes and rotations
+    const towards = (id: string, command: (rec: DecalRec) => SelectionCommand) => send(() => {
+        const { decals, selectionCommand } = useDesignStore.getState()
+        const rec = decals.find(d => d.id === id)
+        if (rec) selectionCommand(command(rec))
+    })
+
+    const pointer = (e: React.PointerEvent): Point => {
+        const rect = rootRef.current!.getBoundingClientRect()
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+    }
+
+    const startGesture = (e: React.PointerEvent, kind: Gesture['kind']) => {
+        const { decals, selectedId } = useDesignStore.getState()
+        const rec = decals.find(d => d.id === selectedId)
+        if (!rec) return
+        e.stopPropagation()
+        e.preventDefault()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        const p = pointer(e)
+        const center = centerRef.current
+        // every frame of the gesture goes into one undo step, committed in endGesture
+        useHistoryStore.getState().begin()
+        gestureRef.current = kind === 'scale'
+            ? { kind, id: rec.id, distance: Math.max(1, Math.hypot(p.x - center.x, p.y - center.y)), size: rec.sizeForDecal }
+            // seen from behind, counter-clockwise on screen is clockwise around the normal
+            : { kind, id: rec.id, angle: screenAngle(center, p), rotationDeg: rec.rotationDeg ?? 0, sign: facingRef.current ? 1 : -1 }
+    }
+
+    const moveGesture = (e: React.PointerEvent) => {
+        const gesture = gestureRef.current
+        if (!gesture) return
+        const p = pointer(e)
+        const center = centerRef.current
+        if (gesture.kind === 'scale') {
+            // setSize scales an unlocked height along, so both modes keep their proportions
+            const ratio = Math.hypot(p.x - center.x, p.y - center.y) / gesture.distance
+            const size = gesture.size * Math.max(0.05, ratio)
+            towards(gesture.id, rec => ({ action: 'scale', factor: size / rec.sizeForDecal }))
+        } else {
+            let deg = gesture.rotationDeg + gesture.sign * (screenAngle(center, p) - gesture.angle)
+            if (e.shiftKey) deg = Math.round(deg / ROTATE_SNAP) * ROTATE_SNAP
+            const rotationDeg = Math.round(wrapDegrees(deg))
+            towards(gesture.id, rec => ({ action: 'rotate', deg: rotationDeg - (rec.rotationDeg ?? 0) }))
+        }
+    }
+
+    const endGesture = (e: React.PointerEvent) => {
+        if (!gestureRef.current) return
+        gestureRef.current = null
+        e.currentTarget.releasePointerCapture(e.pointerId)
+        // the last frame's update lands inside the transaction; its animation frame then finds nothing to do
+        const latest = pendingRef.current
+        pendingRef.current = null
+        latest?.()
+        useHistoryStore.getState().commit(true)
+    }
+
+    const command = (cmd: SelectionCommand) => useDesignStore.getState().selectionCommand(cmd)
+
+    // primary decal horizontally centered on the model, at the same height; the rest of the selection moves along
+    const center = () => {
+        const { decals, selectedId } = useDesignStore.getState()
+        const rec = decals.find(d => d.id === selectedId)
+        const position = rec && decalModelPosition(rec)
+        if (position) command({ action: 'move', offset: new THREE.Vector3(-position.x, 0, 0) })
+    }
+
+    const gestureHandlers = {
+        onPointerMove: moveGesture,
+        onPointerUp: endGesture,
+        onPointerCancel: endGesture,
+    }
+
+    return (
+        <Html fullscreen calculatePosition={fillViewport} zIndexRange={[1, 0]} style={{ pointerEvents: 'none' }}>
+            {/* clicks must not reach the window listener that deselects on empty space */}
+            <div ref={rootRef} className="absolute inset-0 select-none" style={{ display: 'none' }} onClick={(e) => e.stopPropagation()}>
+                <svg className="absolute inset-0 w-full h-full overflow-visible">
+                    <polygon ref={outlineRef} fill="none" stroke="#0284c7" strokeWidth={1.5} strokeDasharray="5 3" />
+                    <path ref={othersRef} fill="none" stroke="#38bdf8" strokeWidth={1} strokeDasharray="3 3" />
+                    <line ref={stemRef} stroke="#0284c7" strokeWidth={1.5} />
+                </svg>
+                {CORNERS.map(([sx, sy], i) => (
+                    <div
+                        key={i}
+                        ref={(el) => { cornerRefs.current[i] = el }}
+                        title="Drag to resize"
+                        className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border-2 border-sky-600 pointer-events-auto ${sx === sy ? 'cursor-nesw-resize' : 'cursor-nwse-resize'}`}
+                        onPointerDown={(e) => startGesture(e, 'scale')}
+                        {...gestureHandlers}
+                    />
+                ))}
+                <div
+                    ref={rotateRef}
+                    title="Drag to rotate (Shift snaps to 15°)"
+                    className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-sky-600 pointer-events-auto cursor-grab active:cursor-grabbing"
+                    onPointerDown={(e) => startGesture(e, 'rotate')}
+                    {...gestureHandlers}
+                />
+                <div ref={toolbarRef} className="absolute flex gap-1 p-1 bg-white text-black rounded shadow -translate-x-1/2 -translate-y-full pointer-events-auto">
+                    <button className="p-1 rounded cursor-pointer hover:bg-gray-100" title="Duplicate" onClick={() => command({ action: 'duplicate' })}>
+                        <FiCopy />
+                    </button>
+                    <button className="p-1 rounded cursor-pointer hover:bg-gray-100" title="Center horizontally on the model" onClick={center}>
+                        <FiCrosshair />
+                    </button>
+                    <button className="p-1 rounded cursor-pointer hover:bg-gray-100 text-red-700" title="Delete" onClick={() => command({ action: 'delete' })}>
+                        <FiTrash />
+                    </button>
+                </div>
+            </div>
+        </Html>
+    )
+}
@@ -1,76 +1,471 @@
 // src/components/DecalList.tsx
-import { useEffect, useState } from 'react'
-import { FiTrash } from 'react-icons/fi'
+import { useShallow } from 'zustand/react/shallow'
+import { useState } from 'react'
+import { FiAlignCenter, FiAlignLeft, FiAlignRight, FiClipboard, FiCopy, FiLink, FiLock, FiMenu, FiRotateCcw, FiRotateCw, FiTrash, FiUnlock } from 'react-icons/fi'
+import * as THREE from 'three'
 import type { DecalRec } from './ModelWithDecals'
+import FontPicker from './FontPicker'
+import { selectDecalsOfType, selectSelectedDecals, useDesignStore, type DecalCommand } from '../store/designStore'
+import { decalArtworkSize, decalModelPosition, decalSize } from '../utils/decalUtils'
+import { formatLength, fromUnit, LENGTH_UNITS, roundToUnit, type LengthUnit } from '../utils/units'
+import { BUILTIN_FONTS } from '../utils/fontUtils'
+import { DECAL_BLEND_MODES, DECAL_FINISHES, type DecalBlendMode, type DecalFinish } from '../utils/decalFinish'
+import { SYMMETRY_AXES, type SymmetryAxis } from '../utils/decalMirror'
+import { FONT_WEIGHTS, resolveTextPath, resolveTextStyle, TEXT_PATH_MODES, type TextAlign, type TextPath, type TextPathMode, type TextStyle } from '../utils/textDecal'
 
-const FONT_OPTIONS = ['sans-serif', 'serif', 'monospace', 'cursive', 'Helvetica', 'Arial']
-
-export default function DecalList({ activeTab, clearAllDecals }: { activeTab: string, clearAllDecals: Boolean }) {
-    const [decals, setDecals] = useState<DecalRec[]>([])
-    const [selectedId, setSelectedId] = useState<string | null>(null)
-
-    useEffect(() => {
-        const placed = (e: any) => {
-            const d = e.detail
-            // initialize with sensible defaults (size/fontSize/rotation)
-            const init: DecalRec = {
-                size: d.size ?? 0.5,
-                fontSize: d.fontSize ?? 48,
-                rotationDeg: d.rotationDeg ?? 0,
-                ...d,
-            }
-            setDecals((s) => [init, ...s])
-            setSelectedId(d.id)
-        }
-        const removed = (e: any) => {
-            const id = e.detail?.id
-            setDecals((s) => s.filter((x) => x.id !== id))
-            if (selectedId === id) setSelectedId(null)
-        }
-        const updated = (e: any) => {
-            const payload = e.detail
-            setDecals((s) => s.map((d) => (d.id === payload.id ? { ...d, ...payload } : d)))
-        }
-        window.addEventListener('decalPlaced', placed)
-        window.addEventListener('decalRemoved', removed)
-        window.addEventListener('decalUpdated', updated)
-        return () => {
-            window.removeEventListener('decalPlaced', placed)
-            window.removeEventListener('decalRemoved', removed)
-            window.removeEventListener('decalUpdated', updated)
-        }
-    }, [selectedId])
-
-    useEffect(() => {
-        if (clearAllDecals) {
-            setDecals([])
-            setSelectedId(null)
-        }
-    }, [clearAllDecals])
-
-
-    // const select = (id: string) => {
-    //     setSelectedId(id)
-    //     window.dispatchEvent(new CustomEvent('selectDecalById', { detail: { id } }))
-    // }
-
-    const doCommand = (id: string, action: string, data?: any) => {
-        window.dispatchEvent(new CustomEvent('decalCommand', { detail: { id, action, data } }))
+// decal sizes the logo size slider covers, in model units
+const SIZE_RANGE = { min: 0.01, max: 2 }
+
+// steps of the group resize and rotate buttons
+const GROUP_SCALE_STEP = 1.1
+const GROUP_ROTATE_STEP = 15
+
+const ALIGN_OPTIONS: { value: TextAlign; icon: typeof FiAlignLeft }[] = [
+    { value: 'left', icon: FiAlignLeft },
+    { value: 'center', icon: FiAlignCenter },
+    { value: 'right', icon: FiAlignRight },
+]
+
+// Number input in the display unit; commits on blur/Enter so typing isn't rounded away
+function LengthField({ label, meters, unit, onCommit }: {
+    label: string
+    meters: number
+    unit: LengthUnit
+    onCommit: (meters: number) => void
+}) {
+    const shown = roundToUnit(meters, unit)
+    const commit = (raw: string) => {
+        const n = Number(raw)
+        if (raw.trim() !== '' && Number.isFinite(n) && n !== shown) onCommit(fromUnit(n, unit))
     }
+    return (
+        <label className="flex items-center gap-1 text-xs">
+            <span className="w-4 text-gray-600">{label}</span>
+            <input
+                key={`${shown}${unit}`}
+                type="number"
+                step={LENGTH_UNITS[unit].step}
+                defaultValue={shown}
+                onClick={(e) => e.stopPropagation()}
+                onBlur={(e) => commit(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && commit(e.currentTarget.value)}
+                className="w-16 border rounded px-1 py-0.5 text-black"
+            />
+            <span className="text-gray-500">{LENGTH_UNITS[unit].label}</span>
+        </label>
+    )
+}
 
-    // only show this panel when in Texts or Logos tab
-    if (activeTab !== 'Texts' && activeTab !== 'Logos') return null
+// Printed artwork width as a slider in the display unit; the range spans 0.01–2 model units of decal size
+function WidthSlider({ decal, onCommand }: { decal: DecalRec; onCommand: (cmd: DecalCommand) => void }) {
+    const metersPerUnit = useDesignStore(s => s.modelScale.metersPerUnit)
+    const unit = useDesignStore(s => s.lengthUnit)
+    const width = decalArtworkSize(decal)?.width ?? 0
+    if (!(width > 0 && decal.sizeForDecal > 0)) return null
+    // artwork meters per unit of sizeForDecal
+    const perSize = (width / decal.sizeForDecal) * metersPerUnit
+    return (
+        <div>
+            <div className="text-xs text-gray-600">Size</div>
+            <input
+                type="range"
+                min={Math.max(LENGTH_UNITS[unit].step, roundToUnit(SIZE_RANGE.min * perSize, unit))}
+                max={roundToUnit(SIZE_RANGE.max * perSize, unit)}
+                step={LENGTH_UNITS[unit].step}
+                value={roundToUnit(width * metersPerUnit, unit)}
+                onChange={(e) => onCommand({ action: 'setSize', size: fromUnit(Number(e.target.value), unit) / perSize })}
+            />
+            <div className="text-xs text-gray-500">
+                {formatLength(width * metersPerUnit, unit)} wide
+            </div>
+        </div>
+    )
+}
+
+// Printed width/height and position of a decal, in the display unit, plus aspect lock, flips and its twin link
+function PlacementFields({ decal, onCommand }: { decal: DecalRec; onCommand: (cmd: DecalCommand) => void }) {
+    const metersPerUnit = useDesignStore(s => s.modelScale.metersPerUnit)
+    const modelSize = useDesignStore(s => s.modelSize)
+    const unit = useDesignStore(s => s.lengthUnit)
+    const symmetryAxis = useDesignStore(s => s.symmetryAxis)
+
+    const size = decalArtworkSize(decal)
+    const position = decalModelPosition(decal)
+    if (!size || !position || !modelSize) return null
+    const top = modelSize.y / 2
+
+    const locked = decal.heightForDecal === undefined
+    // resize by the ratio of the new to the current artwork dimension; unlocked, only that dimension changes
+    const resize = (axis: 'width' | 'height', meters: number) => {
+        const current = size[axis]
+        if (!(meters > 0 && current > 0)) return
+        const ratio = meters / metersPerUnit / current
+        if (locked) onCommand({ action: 'setSize', size: decal.sizeForDecal * ratio })
+        else onCommand({ action: 'setDimensions', [axis]: decalSize(decal)[axis] * ratio })
+    }
+    const move = (x: number, y: number) => onCommand({ action: 'setPosition', position: new THREE.Vector3(x, y, position.z) })
+
+    return (
+        <div className="mt-3 grid grid-cols-2 gap-1">
+            <LengthField label="W" unit={unit} meters={size.width * metersPerUnit} onCommit={(m) => resize('width', m)} />
+            <LengthField label="H" unit={unit} meters={size.height * metersPerUnit} onCommit={(m) => resize('height', m)} />
+            <LengthField label="X" unit={unit} meters={position.x * metersPerUnit} onCommit={(m) => move(m / metersPerUnit, position.y)} />
+            <LengthField label="Y" unit={unit} meters={(top - position.y) * metersPerUnit} onCommit={(m) => move(position.x, top - m / metersPerUnit)} />
+            <div className="col-span-2 text-[10px] text-gray-500">X from the model's center, Y down from its top</div>
+            <div className="col-span-2 flex gap-1 mt-1">
+                <button
+                    className={`flex items-center gap-1 px-2 py-1 rounded text-xs cursor-pointer ${locked ? 'bg-sky-900 text-white' : 'bg-gray-100 text-black'}`}
+                    title={locked ? 'Width and height keep the artwork\'s aspect ratio' : 'Width and height change independently'}
+                    onClick={(e) => { e.stopPropagation(); onCommand({ action: 'setAspectLock', locked: !locked }) }}
+                >
+                    {locked ? <FiLock /> : <FiUnlock />} Aspect
+                </button>
+                <button
+                    className={`px-2 py-1 rounded text-xs cursor-pointer ${decal.flipX ? 'bg-sky-900 text-white' : 'bg-gray-100 text-black'}`}
+                    onClick={(e) => { e.stopPropagation(); onCommand({ action: 'setFlip', flipX: !decal.flipX }) }}
+                >
+                    Flip H
+                </button>
+                <button
+                    className={`px-2 py-1 rounded text-xs cursor-pointer ${decal.flipY ? 'bg-sky-900 text-white' : 'bg-gray-100 text-black'}`}
+                    onClick={(e) => { e.stopPropagation(); onCommand({ action: 'setFlip', flipY: !decal.flipY }) }}
+                >
+                    Flip V
+                </button>
+            </div>
+            {decal.mirror ? (
+                <div className="col-span-2 flex items-center gap-1 mt-1 text-xs text-gray-600">
+                    <FiLink /> Mirrored across {decal.mirror.axis.toUpperCase()}; edits apply to both
+                    <button
+                        className="ml-auto px-2 py-1 rounded text-xs cursor-pointer bg-gray-100 text-black"
+                        onClick={(e) => { e.stopPropagation(); onCommand({ action: 'unlink' }) }}
+                    >
+                        Unlink
+                    </button>
+                </div>
+            ) : symmetryAxis && (
+                <div className="col-span-2 mt-1">
+                    <button
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs cursor-pointer bg-gray-100 text-black"
+                        onClick={(e) => { e.stopPropagation(); onCommand({ action: 'mirror', axis: symmetryAxis }) }}
+                    >
+                        <FiLink /> Mirror across {symmetryAxis.toUpperCase()}
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Labelled range slider with its value shown next to the label
+function StyleSlider({ label, value, min, max, step = 1, suffix = '', onChange }: {
+    label: string
+    value: number
+    min: number
+    max: number
+    step?: number
+    suffix?: string
+    onChange: (value: number) => void
+}) {
+    return (
+        <label className="block text-xs">
+            <span className="flex justify-between text-gray-600">
+                <span>{label}</span>
+                <span className="text-gray-500">{value}{suffix}</span>
+            </span>
+            <input type="range" className="w-full" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+        </label>
+    )
+}
+
+// Layout mode of a text decal and the parameters of its curve
+function TextPathFields({ decal, onCommand }: { decal: DecalRec; onCommand: (cmd: DecalCommand) => void }) {
+    const path = resolveTextPath(decal.textPath)
+    const set = (patch: Partial<TextPath>) => onCommand({ action: 'setTextPath', path: patch })
+    const handle = (key: 'control1' | 'control2', axis: 0 | 1, value: number) => {
+        const next: [number, number] = [...path[key]]
+        next[axis] = value
+        set({ [key]: next })
+    }
+
+    return (
+        <div className="mt-2 space-y-1">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+                Layout
+                <select
+                    className="text-xs p-1 rounded text-black"
+                    value={path.mode}
+                    onChange={(e) => set({ mode: e.target.value as TextPathMode })}
+                >
+                    {TEXT_PATH_MODES.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+            </label>
+            {(path.mode === 'arcUp' || path.mode === 'arcDown' || path.mode === 'circle') && (
+                <StyleSlider label="Radius" value={path.radius} min={40} max={1000} step={5} suffix=" px" onChange={(v) => set({ radius: v })} />
+            )}
+            {path.mode === 'circle' && (
+                <StyleSlider label="Start angle" value={path.startAngle} min={-180} max={180} suffix="°" onChange={(v) => set({ startAngle: v })} />
+            )}
+            {path.mode === 'wave' && (
+                <>
+                    <StyleSlider label="Amplitude" value={path.amplitude} min={0} max={120} suffix=" px" onChange={(v) => set({ amplitude: v })} />
+                    <StyleSlider label="Wavelength" value={path.wavelength} min={40} max={800} step={5} suffix=" px" onChange={(v) => set({ wavelength: v })} />
+                </>
+            )}
+            {path.mode === 'bezier' && (
+                <div className="grid grid-cols-2 gap-x-2">
+                    <StyleSlider label="Handle 1 X" value={path.control1[0]} min={-1.5} max={1.5} step={0.05} onChange={(v) => handle('control1', 0, v)} />
+                    <StyleSlider label="Handle 1 Y" value={path.control1[1]} min={-1.5} max={1.5} step={0.05} onChange={(v) => handle('control1', 1, v)} />
+                    <StyleSlider label="Handle 2 X" value={path.control2[0]} min={-1.5} max={1.5} step={0.05} onChange={(v) => handle('control2', 0, v)} />
+                    <StyleSlider label="Handle 2 Y" value={path.control2[1]} min={-1.5} max={1.5} step={0.05} onChange={(v) => handle('control2', 1, v)} />
+                </div>
+            )}
+        </div>
+    )
+}
+
+// Weight, alignment, spacing, outline, shadow and gradient of a text decal
+function TextStyleFields({ decal, onCommand }: { decal: DecalRec; onCommand: (cmd: DecalCommand) => void }) {
+    const style = resolveTextStyle(decal.textStyle)
+    const set = (patch: Partial<TextStyle>) => onCommand({ action: 'setTextStyle', style: patch })
+    const toggleClass = (on: boolean) => `px-2 py-1 rounded text-xs cursor-pointer ${on ? 'bg-sky-900 text-white' : 'bg-gray-100 text-black'}`
+
+    return (
+        <div className="mt-2 space-y-2">
+            <div className="flex items-center gap-1">
+                <select
+                    className="text-xs p-1 rounded text-black"
+                    value={style.weight}
+                    onChange={(e) => set({ weight: Number(e.target.value) })}
+                >
+                    {FONT_WEIGHTS.map((w) => <option key={w.value} value={w.value}>{w.label}</option>)}
+                </select>
+                <button className={`${toggleClass(style.italic)} italic`} onClick={() => set({ italic: !style.italic })}>I</button>
+                <div className="flex gap-1 ml-auto">
+                    {ALIGN_OPTIONS.map(({ value, icon: Icon }) => (
+                        <button key={value} className={toggleClass(style.align === value)} title={`Align ${value}`} onClick={() => set({ align: value })}>
+                            <Icon size={12} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <StyleSlider label="Letter spacing" value={style.letterSpacing} min={-10} max={60} suffix=" px" onChange={(v) => set({ letterSpacing: v })} />
+            <StyleSlider label="Line height" value={style.lineHeight} min={0.6} max={3} step={0.05} suffix="×" onChange={(v) => set({ lineHeight: v })} />
+
+            <div>
+                <label className="flex items-center gap-2 text-xs">
+                    <input type="checkbox" checked={!!style.stroke} onChange={(e) => set({ stroke: e.target.checked ? { color: '#ffffff', width: 6 } : null })} />
+                    Outline
+                    {style.stroke && (
+                        <input
+                            className="w-8 h-5 p-0 border rounded ml-auto"
+                            type="color"
+                            value={style.stroke.color}
+                            onChange={(e) => set({ stroke: { ...style.stroke!, color: e.target.value } })}
+                        />
+                    )}
+                </label>
+                {style.stroke && (
+                    <StyleSlider label="Width" value={style.stroke.width} min={1} max={40} suffix=" px" onChange={(v) => set({ stroke: { ...style.stroke!, width: v } })} />
+                )}
+            </div>
+
+            <div>
+                <label className="flex items-center gap-2 text-xs">
+                    <input
+                        type="checkbox"
+                        checked={!!style.shadow}
+                        onChange={(e) => set({ shadow: e.target.checked ? { color: '#000000', blur: 8, offsetX: 4, offsetY: 4 } : null })}
+                    />
+                    Shadow
+                    {style.shadow && (
+                        <input
+                            className="w-8 h-5 p-0 border rounded ml-auto"
+                            type="color"
+                            value={style.shadow.color}
+                            onChange={(e) => set({ shadow: { ...style.shadow!, color: e.target.value } })}
+                        />
+                    )}
+                </label>
+                {style.shadow && (
+                    <>
+                        <StyleSlider label="Blur" value={style.shadow.blur} min={0} max={40} suffix=" px" onChange={(v) => set({ shadow: { ...style.shadow!, blur: v } })} />
+                        <StyleSlider label="Offset X" value={style.shadow.offsetX} min={-40} max={40} suffix=" px" onChange={(v) => set({ shadow: { ...style.shadow!, offsetX: v } })} />
+                        <StyleSlider label="Offset Y" value={style.shadow.offsetY} min={-40} max={40} suffix=" px" onChange={(v) => set({ shadow: { ...style.shadow!, offsetY: v } })} />
+                    </>
+                )}
+            </div>
+
+            <div>
+                <label className="flex items-center gap-2 text-xs">
+                    <input
+                        type="checkbox"
+                        checked={!!style.gradient}
+                        onChange={(e) => set({ gradient: e.target.checked ? { from: decal.color ?? '#000000', to: '#ffffff', angle: 90 } : null })}
+                    />
+                    Gradient fill
+                    {style.gradient && (
+                        <span className="flex gap-1 ml-auto">
+                            <input
+                                className="w-8 h-5 p-0 border rounded"
+                                type="color"
+                                value={style.gradient.from}
+                                onChange={(e) => set({ gradient: { ...style.gradient!, from: e.target.value } })}
+                            />
+                            <input
+                                className="w-8 h-5 p-0 border rounded"
+                                type="color"
+                                value={style.gradient.to}
+                                onChange={(e) => set({ gradient: { ...style.gradient!, to: e.target.value } })}
+                            />
+                        </span>
+                    )}
+                </label>
+                {style.gradient && (
+                    <StyleSlider label="Angle" value={style.gradient.angle} min={0} max={360} suffix="°" onChange={(v) => set({ gradient: { ...style.gradient!, angle: v } })} />
+                )}
+            </div>
+        </div>
+    )
+}
+
+// Copy / paste, and edits to all selected decals at once while more than one is selected
+function SelectionTools() {
+    const selectedIds = useDesignStore(s => s.selectedIds)
+    const copied = useDesignStore(s => s.decalClipboard.length)
+    const selectedTexts = useDesignStore(useShallow(s => selectSelectedDecals(s).filter(d => d.meta.type === 'text')))
+    const { copyDecals, pasteDecals, selectionCommand, selectDecal } = useDesignStore.getState()
+    const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded text-xs cursor-pointer bg-gray-100 text-black disabled:opacity-50 disabled:cursor-default'
+
+    return (
+        <div className="mb-2 space-y-1">
+            <div className="flex items-center gap-1">
+                <button className={buttonClass} disabled={!selectedIds.length} title="Copy the selected decals (Ctrl+C)" onClick={copyDecals}>
+                    <FiCopy /> Copy
+                </button>
+                <button className={buttonClass} disabled={!copied} title="Paste onto the current model, also after switching models (Ctrl+V)" onClick={() => pasteDecals()}>
+                    <FiClipboard /> Paste{copied > 1 ? ` (${copied})` : ''}
+                </button>
+            </div>
+            {selectedIds.length > 1 && (
+                <div className="p-2 rounded bg-gray-50 space-y-1 text-xs">
+                    <div className="flex items-center justify-between text-gray-600">
+                        {selectedIds.length} decals selected
+                        <button className="underline cursor-pointer" onClick={() => selectDecal(null)}>Clear</button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1">
+                        <button className={buttonClass} onClick={() => selectionCommand({ action: 'duplicate' })}>
+                            <FiCopy /> Duplicate
+                        </button>
+                        <button className={buttonClass} title="Shrink all by 10%" onClick={() => selectionCommand({ action: 'scale', factor: 1 / GROUP_SCALE_STEP })}>−</button>
+                        <button className={buttonClass} title="Grow all by 10%" onClick={() => selectionCommand({ action: 'scale', factor: GROUP_SCALE_STEP })}>+</button>
+                        <button className={buttonClass} title={`Rotate all ${GROUP_ROTATE_STEP}° counter-clockwise`} onClick={() => selectionCommand({ action: 'rotate', deg: GROUP_ROTATE_STEP })}>
+                            <FiRotateCcw />
+                        </button>
+                        <button className={buttonClass} title={`Rotate all ${GROUP_ROTATE_STEP}° clockwise`} onClick={() => selectionCommand({ action: 'rotate', deg: -GROUP_ROTATE_STEP })}>
+                            <FiRotateCw />
+                        </button>
+                        {selectedTexts.length > 0 && (
+                            <input
+                                className="w-8 h-6 p-0 border rounded"
+                                type="color"
+                                title="Color of the selected texts"
+                                value={selectedTexts[0].color ?? '#000000'}
+                                onChange={(e) => selectionCommand({ action: 'recolor', color: e.target.value })}
+                            />
+                        )}
+                        <button className={`${buttonClass} ml-auto text-red-700`} title="Delete the selected decals" onClick={() => selectionCommand({ action: 'delete' })}>
+                            <FiTrash />
+                        </button>
+                    </div>
+                    <div className="text-[10px] text-gray-500">Drag any of them in the view to move them together</div>
+                </div>
+            )}
+        </div>
+    )
+}
 
+export default function DecalList({ activeTab }: { activeTab: string }) {
     // filter decals for selected tab: 'Texts' -> 'text', 'Logos' -> 'logo'
     const wantedType = activeTab === 'Texts' ? 'text' : 'logo'
-    const filteredDecals = decals.filter((d) => d.meta.type === wantedType)
+    // newest first
+    const filteredDecals = useDesignStore(useShallow(selectDecalsOfType(wantedType))).slice().reverse()
+    const selectedId = useDesignStore(s => s.selectedId)
+    const selectedIds = useDesignStore(s => s.selectedIds)
+    const highlightHidden = useDesignStore(s => s.highlightHiddenDecals)
+    const symmetryAxis = useDesignStore(s => s.symmetryAxis)
+    const { selectDecal, decalCommand, setHighlightHiddenDecals, setSymmetryAxis } = useDesignStore.getState()
+    // decal being dragged by its handle, and the one it is over
+    const [dragId, setDragId] = useState<string | null>(null)
+    const [dropId, setDropId] = useState<string | null>(null)
+
+    const doCommand = (id: string, cmd: DecalCommand) => decalCommand(id, cmd)
+
+    // the dragged decal takes the layer position of the one it is dropped on
+    const drop = (targetId: string) => {
+        const to = useDesignStore.getState().decals.findIndex((d) => d.id === targetId)
+        if (dragId && dragId !== targetId && to >= 0) doCommand(dragId, { action: 'moveLayer', to })
+        setDragId(null)
+        setDropId(null)
+    }
+
+    // only show this panel when in Texts or Logos tab
+    if (activeTab !== 'Texts' && activeTab !== 'Logos') return null
 
     return (
         <div className="mt-4">
+            <label className="mb-2 flex items-center gap-2 text-xs text-gray-600" title="Placed and dragged decals get a linked twin mirrored across the model's center">
+                Symmetry
+                <select
+                    className="text-xs p-1 rounded text-black"
+                    value={symmetryAxis ?? ''}
+                    onChange={(e) => setSymmetryAxis((e.target.value || null) as SymmetryAxis | null)}
+                >
+                    <option value="">Off</option>
+                    {SYMMETRY_AXES.map((a) => <option key={a.value} value={a.value}>{a.label}</option>)}
+                </select>
+            </label>
+            <SelectionTools />
             {filteredDecals.length === 0 && <div>Nothing placed yet</div>}
+            {filteredDecals.length > 0 && (
+                <label className="mb-1 flex items-center gap-2 text-xs" title="Editor only; not included in exports">
+                    <input type="checkbox" checked={highlightHidden} onChange={(e) => setHighlightHiddenDecals(e.target.checked)} />
+                    Highlight hidden decals
+                </label>
+            )}
+            {filteredDecals.length > 1 && <div className="mb-1 text-[10px] text-gray-500">Top of the list is the top layer; drag <FiMenu className="inline" /> to reorder, Shift-click to select several</div>}
             <div className="space-y-2 max-h-screen overflow-auto">
                 {filteredDecals.map((d) => (
-                    <div key={d.id} className="p-2 rounded flex gap-2 items-start bg-gray-50">
+                    <div
+                        key={d.id}
+                        className={`p-2 rounded flex gap-2 items-start bg-gray-50 ${d.id === selectedId ? 'outline-blue-600 outline-2' : selectedIds.includes(d.id) ? 'outline-sky-400 outline-1' : ''} ${d.id === dropId && dragId !== d.id ? 'border-t-2 border-sky-700' : ''}`}
+                        onClick={(e) => selectDecal(d.id, e.shiftKey)}
+                        onDragOver={(e) => {
+                            if (!dragId) return
+                            e.preventDefault()
+                            setDropId(d.id)
+                        }}
+                        onDrop={(e) => {
+                            e.preventDefault()
+                            drop(d.id)
+                        }}
+                    >
+                        <div
+                            draggable
+                            title="Drag to change the layer order"
+                            className="pt-1 text-gray-500 cursor-grab"
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move'
+                                setDragId(d.id)
+                            }}
+                            onDragEnd={() => {
+                                setDragId(null)
+                                setDropId(null)
+                            }}
+                        >
+                            <FiMenu />
+                        </div>
                         {d.meta.type !== 'text' ? (
                             <img src={d.thumb ?? ''} alt="" className="w-12 h-12 object-contain bg-white/5 rounded" />
                         ) : (
@@ -81,43 +476,33 @@ export default function DecalList({ activeTab, clearAllDecals }: { activeTab: st
                             <div className="flex items-center justify-between">
                                 <div className="text-xs font-medium">{d.meta.type === 'text' ? `Text` : 'Logo'}</div>
                                 <div className="flex gap-2">
-                                    {/* <button className="px-2 py-1 rounded bg-gray-200 text-xs" onClick={() => select(d.id)}>Select</button> */}
-                                    <button className="px-2 py-1 rounded text-xs" onClick={() => doCommand(d.id, 'delete')}><FiTrash size={16} color="red" /></button>
+                                    <button className="px-2 py-1 rounded text-xs" title="Duplicate" onClick={(e) => { e.stopPropagation(); doCommand(d.id, { action: 'duplicate' }) }}><FiCopy size={16} /></button>
+                                    <button className="px-2 py-1 rounded text-xs" onClick={(e) => { e.stopPropagation(); doCommand(d.id, { action: 'delete' }) }}><FiTrash size={16} color="red" /></button>
                                 </div>
                             </div>
 
                             {/* Text editing */}
                             {d.meta.type === 'text' && (
                                 <div className="mt-2 space-y-1">
-                                    <input
-                                        className="w-full text-black p-1 text-xs rounded"
+                                    <textarea
+                                        className="w-full text-black p-1 text-xs rounded resize-y"
+                                        rows={Math.min(4, Math.max(1, (d.text ?? '').split('\n').length))}
                                         value={d.text ?? ''}
                                         onChange={(e) => {
-                                            const text = e.target.value
-                                            setDecals((s) => s.map(item => item.id === d.id ? { ...item, text } : item))
-                                            doCommand(d.id, 'updateText', { text })
+                                            doCommand(d.id, { action: 'updateText', text: e.target.value })
                                         }}
                                     />
                                     <div className="flex items-center gap-2">
-                                        <select
-                                            className="text-xs p-1 rounded text-black"
-                                            value={d.font ?? FONT_OPTIONS[0]}
-                                            onChange={(e) => {
-                                                const font = e.target.value
-                                                setDecals((s) => s.map(item => item.id === d.id ? { ...item, font } : item))
-                                                doCommand(d.id, 'updateFont', { font })
-                                            }}
-                                        >
-                                            {FONT_OPTIONS.map((f) => <option key={f} value={f}>{f}</option>)}
-                                        </select>
+                                        <FontPicker
+                                            value={d.font ?? BUILTIN_FONTS[0]}
+                                            onChange={(font) => doCommand(d.id, { action: 'updateFont', font })}
+                                        />
                                         <input
                                             className="w-10 h-8 p-0 border rounded"
                                             type="color"
                                             value={d.color ?? '#000000'}
                                             onChange={(e) => {
-                                                const color = e.target.value
-                                                setDecals((s) => s.map(item => item.id === d.id ? { ...item, color } : item))
-                                                doCommand(d.id, 'updateColor', { color })
+                                                doCommand(d.id, { action: 'updateColor', color: e.target.value })
                                             }}
                                         />
                                     </div>
@@ -132,38 +517,61 @@ export default function DecalList({ activeTab, clearAllDecals }: { activeTab: st
                                             step={1}
                                             value={d.fontSize ?? 48}
                                             onChange={(e) => {
-                                                const fontSize = Number(e.target.value)
-                                                setDecals((s) => s.map(item => item.id === d.id ? { ...item, fontSize } : item))
-                                                doCommand(d.id, 'setFontSize', { fontSize })
+                                                doCommand(d.id, { action: 'setFontSize', fontSize: Number(e.target.value) })
                                             }}
                                         />
                                         <div className="text-xs text-gray-500">{(d.fontSize ?? 48).toFixed(0)} px</div>
                                     </div>
+
+                                    <TextPathFields decal={d} onCommand={(cmd) => doCommand(d.id, cmd)} />
+                                    <TextStyleFields decal={d} onCommand={(cmd) => doCommand(d.id, cmd)} />
                                 </div>
                             )}
 
                             {/* Logo editing (color + size) */}
                             {d.meta.type === 'logo' && (
                                 <div className="mt-2 space-y-2">
-                                    <div>
-                                        <div className="text-xs text-gray-600">Size (world units)</div>
-                                        <input
-                                            type="range"
-                                            min={0.01}
-                                            max={2}
-                                            step={0.01}
-                                            value={d.size ?? 0.5}
-                                            onChange={(e) => {
-                                                const size = Number(e.target.value)
-                                                setDecals((s) => s.map(item => item.id === d.id ? { ...item, size } : item))
-                                                doCommand(d.id, 'setSize', { size })
-                                            }}
-                                        />
-                                        <div className="text-xs text-gray-500">{(d.size ?? 0.5).toFixed(2)} u</div>
-                                    </div>
+                                    <WidthSlider decal={d} onCommand={(cmd) => doCommand(d.id, cmd)} />
                                 </div>
                             )}
 
+                            {/* Printed size and placement in real units (common for both) */}
+                            <PlacementFields decal={d} onCommand={(cmd) => doCommand(d.id, cmd)} />
+
+                            {/* Print method (common for both) */}
+                            <label className="mt-3 flex items-center gap-2 text-xs text-gray-600">
+                                Finish
+                                <select
+                                    className="text-xs p-1 rounded text-black"
+                                    value={d.finish ?? 'flat'}
+                                    onChange={(e) => doCommand(d.id, { action: 'setFinish', finish: e.target.value as DecalFinish })}
+                                >
+                                    {DECAL_FINISHES.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+                                </select>
+                            </label>
+
+                            {/* Opacity and blend mode (common for both) */}
+                            <div className="mt-2 space-y-1">
+                                <label className="flex items-center gap-2 text-xs text-gray-600">
+                                    Blend
+                                    <select
+                                        className="text-xs p-1 rounded text-black"
+                                        value={d.blendMode ?? 'normal'}
+                                        onChange={(e) => doCommand(d.id, { action: 'setBlendMode', blendMode: e.target.value as DecalBlendMode })}
+                                    >
+                                        {DECAL_BLEND_MODES.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                    </select>
+                                </label>
+                                <StyleSlider
+                                    label="Opacity"
+                                    value={Math.round((d.opacity ?? 1) * 100)}
+                                    min={0}
+                                    max={100}
+                                    suffix="%"
+                                    onChange={(v) => doCommand(d.id, { action: 'setOpacity', opacity: v / 100 })}
+                                />
+                            </div>
+
                             {/* Rotation control (common for both) */}
                             <div className="mt-3">
                                 <div className="text-xs text-gray-600">Rotation (deg)</div>
@@ -174,9 +582,7 @@ export default function DecalList({ activeTab, clearAllDecals }: { activeTab: st
                                     step={1}
                                     value={d.rotationDeg ?? 0}
                                     onChange={(e) => {
-                                        const rotationDeg = Number(e.target.value)
-                                        setDecals((s) => s.map(item => item.id === d.id ? { ...item, rotationDeg } : item))
-                                        doCommand(d.id, 'setRotation', { rotationDeg })
+                                        doCommand(d.id, { action: 'setRotation', rotationDeg: Number(e.target.value) })
                                     }}
                                 />
                                 <div className="text-xs text-gray-500">{(d.rotationDeg ?? 0).toFixed(0)}°</div>
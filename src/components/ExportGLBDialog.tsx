@@ -0,0 +1,73 @@
+// src/components/ExportGLBDialog.tsx
+import { useState } from 'react'
+import { FiDownload, FiLoader } from 'react-icons/fi'
+import { GLB_EXTENSION, type GlbExportOptions } from '../utils/glbExport'
+
+export default function ExportGLBDialog({ defaultFilename, onExport, onClose }: {
+    defaultFilename: string
+    onExport: (options: GlbExportOptions) => Promise<void>
+    onClose: () => void
+}) {
+    const [filename, setFilename] = useState(defaultFilename)
+    const [bakeDecals, setBakeDecals] = useState(true)
+    const [busy, setBusy] = useState(false)
+
+    const submit = async () => {
+        if (busy) return
+        setBusy(true)
+        // let the spinner paint; baking blocks the main thread
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)))
+        try {
+            await onExport({ bakeDecals, filename })
+            onClose()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[26rem] bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-4">Export GLB</h2>
+
+                <div className="text-sm font-semibold mb-1">File name</div>
+                <div className="flex items-center gap-1 mb-4">
+                    <input
+                        value={filename}
+                        onChange={(e) => setFilename(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submit()}
+                        className="flex-1 border rounded px-2 py-1 text-sm"
+                        autoFocus
+                    />
+                    <span className="text-sm text-gray-600">{GLB_EXTENSION}</span>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" className="mt-1" checked={bakeDecals} onChange={(e) => setBakeDecals(e.target.checked)} />
+                    <span>
+                        Bake decals into textures
+                        <span className="block text-xs text-gray-600">
+                            {bakeDecals
+                                ? "Paints logos and texts into the model's own textures, so the file has no extra decal geometry and looks the same in any viewer. Baked decals can't be edited again."
+                                : 'Keeps decals as separate meshes. Opening the file here again brings them back as editable decals.'}
+                        </span>
+                    </span>
+                </label>
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Exporting…' : 'Export'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
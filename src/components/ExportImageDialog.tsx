@@ -0,0 +1,58 @@
+// src/components/ExportImageDialog.tsx
+import { useState } from 'react'
+import { FiDownload, FiLoader } from 'react-icons/fi'
+import ImageOptionsFields from './ImageOptionsFields'
+import { isValidImageSize, type ImageExportOptions } from '../utils/imageExport'
+
+export default function ExportImageDialog({ defaultBackground, onExport, onClose }: {
+    defaultBackground: string
+    onExport: (options: ImageExportOptions) => Promise<void>
+    onClose: () => void
+}) {
+    const [options, setOptions] = useState<ImageExportOptions>({
+        width: 2048,
+        height: 2048,
+        background: null,
+        format: 'png',
+        quality: 0.92,
+    })
+    const [busy, setBusy] = useState(false)
+    const valid = isValidImageSize(options)
+
+    const submit = async () => {
+        if (!valid || busy) return
+        setBusy(true)
+        // let the spinner paint; large renders block the main thread
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)))
+        try {
+            await onExport(options)
+            onClose()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[26rem] bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-4">Export image</h2>
+
+                <ImageOptionsFields value={options} onChange={setOptions} defaultBackground={defaultBackground} />
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={!valid || busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Rendering…' : 'Export'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,106 @@
+// src/components/ExportTechPackDialog.tsx
+import { useState } from 'react'
+import { FiDownload, FiLoader } from 'react-icons/fi'
+import { VIEW_PRESETS } from '../utils/viewExport'
+import { TECH_PACK_PAGE_SIZES, type TechPackOptions, type TechPackPageSize } from '../utils/techPack'
+
+const DEFAULT_VIEWS = ['Front', 'Back', 'Left', 'Right', '3/4 Left', '3/4 Right']
+
+export default function ExportTechPackDialog({ title, defaultFilename, onExport, onClose }: {
+    title: string
+    defaultFilename: string
+    onExport: (options: TechPackOptions) => Promise<void>
+    onClose: () => void
+}) {
+    const [filename, setFilename] = useState(defaultFilename)
+    const [pageSize, setPageSize] = useState<TechPackPageSize>('a4')
+    const [presets, setPresets] = useState<string[]>(DEFAULT_VIEWS)
+    const [includeArtwork, setIncludeArtwork] = useState(true)
+    const [busy, setBusy] = useState(false)
+
+    const togglePreset = (label: string) => {
+        setPresets((prev) => (prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]))
+    }
+
+    const submit = async () => {
+        if (busy) return
+        setBusy(true)
+        // let the spinner paint; rendering the views blocks the main thread
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)))
+        try {
+            const views = VIEW_PRESETS.filter((v) => presets.includes(v.label))
+            await onExport({ title, filename, pageSize, views, includeArtwork })
+            onClose()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[28rem] max-h-[90vh] overflow-auto bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-1">Export tech pack</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    A printable PDF for production: rendered views, every decal with its size and placement, material colors and the logo artwork.
+                </p>
+
+                <div className="text-sm font-semibold mb-1">File name</div>
+                <div className="flex items-center gap-1 mb-4">
+                    <input
+                        value={filename}
+                        onChange={(e) => setFilename(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submit()}
+                        className="flex-1 border rounded px-2 py-1 text-sm"
+                        autoFocus
+                    />
+                    <span className="text-sm text-gray-600">.pdf</span>
+                </div>
+
+                <div className="text-sm font-semibold mb-1">Page size</div>
+                <div className="flex gap-2 mb-4">
+                    {(Object.keys(TECH_PACK_PAGE_SIZES) as TechPackPageSize[]).map((size) => (
+                        <button
+                            key={size}
+                            className={`px-3 py-1 rounded text-sm cursor-pointer ${pageSize === size ? 'bg-sky-900 text-white' : 'bg-gray-100'}`}
+                            onClick={() => setPageSize(size)}
+                        >
+                            {TECH_PACK_PAGE_SIZES[size]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="text-sm font-semibold mb-1">Views</div>
+                <div className="grid grid-cols-2 gap-1 mb-4 text-sm">
+                    {VIEW_PRESETS.map((v) => (
+                        <label key={v.label} className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={presets.includes(v.label)} onChange={() => togglePreset(v.label)} />
+                            {v.label}
+                        </label>
+                    ))}
+                </div>
+
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" className="mt-1" checked={includeArtwork} onChange={(e) => setIncludeArtwork(e.target.checked)} />
+                    <span>
+                        Include logo artwork
+                        <span className="block text-xs text-gray-600">Adds a page per logo with the original file at full resolution.</span>
+                    </span>
+                </label>
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Exporting…' : 'Export'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
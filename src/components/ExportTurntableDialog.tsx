@@ -0,0 +1,168 @@
+// src/components/ExportTurntableDialog.tsx
+import { useState } from 'react'
+import { FiDownload, FiLoader } from 'react-icons/fi'
+import ImageOptionsFields from './ImageOptionsFields'
+import { isValidImageSize, type ImageExportOptions } from '../utils/imageExport'
+import {
+    MAX_GIF_FPS,
+    MAX_TURNTABLE_SIZE,
+    TURNTABLE_FORMATS,
+    turntableFrameCount,
+    type TurntableFormat,
+    type TurntableOptions,
+    type TurntableProgress,
+} from '../utils/turntableExport'
+
+const SIZE_PRESETS = [
+    { label: 'Small', width: 480, height: 480 },
+    { label: 'Medium', width: 720, height: 720 },
+    { label: 'Large', width: 1080, height: 1080 },
+]
+
+export default function ExportTurntableDialog({ defaultBackground, onExport, onClose }: {
+    defaultBackground: string
+    onExport: (options: TurntableOptions, onProgress: TurntableProgress) => Promise<void>
+    onClose: () => void
+}) {
+    const [format, setFormat] = useState<TurntableFormat>('webm')
+    // frame size/background; the image format is not used here
+    const [frame, setFrame] = useState<ImageExportOptions>({
+        width: 720,
+        height: 720,
+        background: defaultBackground,
+        format: 'png',
+        quality: 1,
+    })
+    const [fps, setFps] = useState(30)
+    const [duration, setDuration] = useState(6)
+    const [direction, setDirection] = useState<1 | -1>(1)
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+    const maxFps = format === 'gif' ? MAX_GIF_FPS : 60
+    const frameCount = turntableFrameCount({ fps, duration })
+    const valid = isValidImageSize(frame, MAX_TURNTABLE_SIZE) && fps >= 1 && fps <= maxFps && duration > 0
+    const busy = progress !== null
+
+    const pickFormat = (f: TurntableFormat) => {
+        setFormat(f)
+        if (f === 'gif') setFps((v) => Math.min(v, MAX_GIF_FPS))
+        // webm has no alpha
+        if (!TURNTABLE_FORMATS[f].alpha && frame.background === null) setFrame({ ...frame, background: defaultBackground })
+    }
+
+    const submit = async () => {
+        if (!valid || busy) return
+        setProgress({ done: 0, total: frameCount })
+        try {
+            await onExport(
+                {
+                    format,
+                    width: frame.width,
+                    height: frame.height,
+                    background: frame.background,
+                    fps,
+                    duration,
+                    direction,
+                },
+                (done, total) => setProgress({ done, total })
+            )
+            onClose()
+        } finally {
+            setProgress(null)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[26rem] max-h-[90vh] overflow-auto bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-1">Export turntable</h2>
+                <p className="text-sm text-gray-600 mb-4">Spins the model a full turn and records it as a looping animation.</p>
+
+                <div className="text-sm font-semibold mb-1">Format</div>
+                <div className="flex gap-2 mb-4">
+                    {(Object.keys(TURNTABLE_FORMATS) as TurntableFormat[]).map((f) => (
+                        <button
+                            key={f}
+                            className={`px-3 py-1 rounded text-sm cursor-pointer ${format === f ? 'bg-sky-900 text-white' : 'bg-gray-100'}`}
+                            onClick={() => pickFormat(f)}
+                        >
+                            {TURNTABLE_FORMATS[f].label}
+                        </button>
+                    ))}
+                </div>
+
+                <ImageOptionsFields
+                    value={frame}
+                    onChange={setFrame}
+                    defaultBackground={defaultBackground}
+                    formats={['png']}
+                    sizePresets={SIZE_PRESETS}
+                    allowTransparent={TURNTABLE_FORMATS[format].alpha}
+                    maxSize={MAX_TURNTABLE_SIZE}
+                    showPrintSize={false}
+                />
+
+                <div className="text-sm font-semibold mb-1">Motion</div>
+                <div className="flex items-center gap-2 mb-2 text-sm">
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={1}
+                            max={maxFps}
+                            value={fps}
+                            onChange={(e) => setFps(Math.floor(Number(e.target.value) || 0))}
+                            className="w-16 border rounded px-2 py-1"
+                        />
+                        fps
+                    </label>
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={1}
+                            max={60}
+                            step={0.5}
+                            value={duration}
+                            onChange={(e) => setDuration(Number(e.target.value) || 0)}
+                            className="w-16 border rounded px-2 py-1"
+                        />
+                        s / turn
+                    </label>
+                    <select
+                        value={direction}
+                        onChange={(e) => setDirection(Number(e.target.value) === -1 ? -1 : 1)}
+                        className="border rounded px-2 py-1"
+                    >
+                        <option value={1}>Counter-clockwise</option>
+                        <option value={-1}>Clockwise</option>
+                    </select>
+                </div>
+                <div className="text-xs text-gray-600 mb-4">
+                    {fps > maxFps ? `Frame rate must be at most ${maxFps} fps for ${TURNTABLE_FORMATS[format].label}` : `${frameCount} frames`}
+                </div>
+
+                {progress && (
+                    <div className="mb-2">
+                        <div className="h-2 bg-gray-200 rounded overflow-hidden">
+                            <div className="h-full bg-sky-900" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                        </div>
+                        <div className="text-xs text-gray-600 mt-1">Frame {progress.done} of {progress.total}</div>
+                    </div>
+                )}
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={!valid || busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Recording…' : 'Export'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
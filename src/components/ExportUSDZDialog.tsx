@@ -0,0 +1,100 @@
+// src/components/ExportUSDZDialog.tsx
+import { useState } from 'react'
+import { FiAlertTriangle, FiDownload, FiLoader } from 'react-icons/fi'
+import { USDZ_EXTENSION, type UsdzExportOptions } from '../utils/usdzExport'
+
+export default function ExportUSDZDialog({ defaultFilename, onExport, onClose }: {
+    defaultFilename: string
+    onExport: (options: UsdzExportOptions) => Promise<string[] | null>
+    onClose: () => void
+}) {
+    const [filename, setFilename] = useState(defaultFilename)
+    const [bakeDecals, setBakeDecals] = useState(true)
+    const [busy, setBusy] = useState(false)
+    // set once an export finished with things the file could not represent
+    const [warnings, setWarnings] = useState<string[] | null>(null)
+
+    const submit = async () => {
+        if (busy) return
+        setBusy(true)
+        // let the spinner paint; baking blocks the main thread
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)))
+        try {
+            const result = await onExport({ bakeDecals, filename })
+            if (result?.length) setWarnings(result)
+            else onClose()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    if (warnings) {
+        return (
+            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+                <div className="w-[30rem] bg-white text-black rounded p-5 shadow-xl">
+                    <h2 className="text-lg font-bold mb-2 flex items-center gap-2">
+                        <FiAlertTriangle className="text-amber-600" />
+                        <span>Exported with warnings</span>
+                    </h2>
+                    <p className="text-sm text-gray-700 mb-3">
+                        The file was downloaded, but some parts of the model may look different in AR Quick Look:
+                    </p>
+                    <ul className="list-disc pl-5 text-sm space-y-1 max-h-64 overflow-y-auto">
+                        {warnings.map((w) => <li key={w}>{w}</li>)}
+                    </ul>
+                    <div className="mt-5 flex justify-end">
+                        <button className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer" onClick={onClose}>
+                            Done
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[26rem] bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-4">Export USDZ (AR Quick Look)</h2>
+
+                <div className="text-sm font-semibold mb-1">File name</div>
+                <div className="flex items-center gap-1 mb-4">
+                    <input
+                        value={filename}
+                        onChange={(e) => setFilename(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submit()}
+                        className="flex-1 border rounded px-2 py-1 text-sm"
+                        autoFocus
+                    />
+                    <span className="text-sm text-gray-600">{USDZ_EXTENSION}</span>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" className="mt-1" checked={bakeDecals} onChange={(e) => setBakeDecals(e.target.checked)} />
+                    <span>
+                        Bake decals into textures
+                        <span className="block text-xs text-gray-600">
+                            {bakeDecals
+                                ? "Paints logos and texts into the model's own textures. Recommended: this is the most faithful result in AR."
+                                : 'Keeps decals as separate textured meshes slightly above the surface.'}
+                        </span>
+                    </span>
+                </label>
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Exporting…' : 'Export'}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
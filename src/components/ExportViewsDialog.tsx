@@ -0,0 +1,130 @@
+// src/components/ExportViewsDialog.tsx
+import { useState } from 'react'
+import { FiDownload, FiLoader, FiPlus, FiTrash } from 'react-icons/fi'
+import ImageOptionsFields from './ImageOptionsFields'
+import { isValidImageSize, type ImageExportOptions } from '../utils/imageExport'
+import { VIEW_PRESETS, type ViewAngle, type ViewExportOptions } from '../utils/viewExport'
+
+const DEFAULT_VIEWS = ['Front', 'Back', 'Left', 'Right', '3/4 Left', '3/4 Right']
+
+export default function ExportViewsDialog({ defaultBackground, onExport, onClose }: {
+    defaultBackground: string
+    onExport: (options: ViewExportOptions) => Promise<void>
+    onClose: () => void
+}) {
+    const [image, setImage] = useState<ImageExportOptions>({
+        width: 2048,
+        height: 2048,
+        background: null,
+        format: 'png',
+        quality: 0.92,
+    })
+    const [presets, setPresets] = useState<string[]>(DEFAULT_VIEWS)
+    const [custom, setCustom] = useState<ViewAngle[]>([])
+    const [contactSheet, setContactSheet] = useState(true)
+    const [busy, setBusy] = useState(false)
+
+    const views = [...VIEW_PRESETS.filter((v) => presets.includes(v.label)), ...custom]
+    const valid = isValidImageSize(image) && views.length > 0
+
+    const togglePreset = (label: string) => {
+        setPresets((prev) => (prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]))
+    }
+    const updateCustom = (index: number, patch: Partial<ViewAngle>) => {
+        setCustom((prev) => prev.map((v, i) => (i === index ? { ...v, ...patch } : v)))
+    }
+
+    const submit = async () => {
+        if (!valid || busy) return
+        setBusy(true)
+        // let the spinner paint; large renders block the main thread
+        await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)))
+        try {
+            await onExport({ ...image, views, contactSheet })
+            onClose()
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[28rem] max-h-[90vh] overflow-auto bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-1">Export views</h2>
+                <p className="text-sm text-gray-600 mb-4">Renders the model from each angle and downloads them as a ZIP.</p>
+
+                <div className="text-sm font-semibold mb-1">Views</div>
+                <div className="grid grid-cols-2 gap-1 mb-2 text-sm">
+                    {VIEW_PRESETS.map((v) => (
+                        <label key={v.label} className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={presets.includes(v.label)} onChange={() => togglePreset(v.label)} />
+                            {v.label}
+                        </label>
+                    ))}
+                </div>
+
+                {custom.map((v, i) => (
+                    <div key={i} className="flex items-center gap-2 mb-1 text-xs">
+                        <input
+                            value={v.label}
+                            onChange={(e) => updateCustom(i, { label: e.target.value })}
+                            className="flex-1 border rounded px-2 py-1"
+                        />
+                        <span>Yaw</span>
+                        <input
+                            type="number"
+                            min={-180}
+                            max={180}
+                            value={v.yaw}
+                            onChange={(e) => updateCustom(i, { yaw: Number(e.target.value) || 0 })}
+                            className="w-16 border rounded px-1 py-1"
+                        />
+                        <span>Pitch</span>
+                        <input
+                            type="number"
+                            min={-89}
+                            max={89}
+                            value={v.pitch}
+                            onChange={(e) => updateCustom(i, { pitch: Number(e.target.value) || 0 })}
+                            className="w-14 border rounded px-1 py-1"
+                        />
+                        <button
+                            className="cursor-pointer"
+                            title="Remove view"
+                            onClick={() => setCustom((prev) => prev.filter((_, j) => j !== i))}
+                        >
+                            <FiTrash size={14} color="red" />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    className="inline-flex items-center gap-1 text-xs text-sky-900 cursor-pointer mb-4"
+                    onClick={() => setCustom((prev) => [...prev, { label: `Custom ${prev.length + 1}`, yaw: 30, pitch: 10 }])}
+                >
+                    <FiPlus /> Add custom angle
+                </button>
+
+                <ImageOptionsFields value={image} onChange={setImage} defaultBackground={defaultBackground} />
+
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={contactSheet} onChange={(e) => setContactSheet(e.target.checked)} />
+                    Include a labelled contact sheet
+                </label>
+
+                <div className="mt-5 flex justify-end gap-2">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose} disabled={busy}>
+                        Cancel
+                    </button>
+                    <button
+                        className="bg-sky-900 hover:bg-sky-950 text-white px-4 py-2 rounded text-sm cursor-pointer inline-flex items-center disabled:opacity-50"
+                        onClick={submit}
+                        disabled={!valid || busy}
+                    >
+                        {busy ? <FiLoader className="mr-2 animate-spin" /> : <FiDownload className="mr-2" />}
+                        <span>{busy ? 'Rendering…' : `Export ${views.length} views`}</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,75 @@
+// src/components/FontManager.tsx
+import { useState } from 'react'
+import { FiLoader, FiTrash, FiUpload } from 'react-icons/fi'
+import { useDesignStore } from '../store/designStore'
+import { cssFontFamily, FONT_FILE_ACCEPT, fontFamilyFromFile, loadCustomFont } from '../utils/fontUtils'
+
+// Upload brand fonts (TTF/OTF/WOFF) for text decals; each is registered before it's listed
+export default function FontManager() {
+    const fonts = useDesignStore((s) => s.fonts)
+    const [inputKey, setInputKey] = useState(0)
+    const [busy, setBusy] = useState(false)
+
+    const upload = async (files: File[]) => {
+        setBusy(true)
+        const failed: string[] = []
+        for (const file of files) {
+            const font = { family: fontFamilyFromFile(file, useDesignStore.getState().fonts.map((f) => f.family)), file }
+            try {
+                await loadCustomFont(font)
+                useDesignStore.getState().setFonts((prev) => [...prev, font])
+            } catch (err) {
+                console.warn(`Could not load font ${file.name}`, err)
+                failed.push(file.name)
+            }
+        }
+        setBusy(false)
+        // allow choosing the same file again
+        setInputKey((k) => k + 1)
+        if (failed.length) window.alert(`These files are not fonts the browser can read:\n${failed.join('\n')}`)
+    }
+
+    const remove = (family: string) => {
+        const used = useDesignStore.getState().decals.filter((d) => d.meta.type === 'text' && d.font === family).length
+        if (used) {
+            window.alert(`${family} is used by ${used} text decal${used === 1 ? '' : 's'}. Change their font first.`)
+            return
+        }
+        useDesignStore.getState().setFonts((prev) => prev.filter((f) => f.family !== family))
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium">Fonts</h4>
+                <label className="relative inline-flex items-center px-3 py-1 bg-sky-900 text-white rounded text-xs cursor-pointer hover:bg-sky-950 transition">
+                    {busy ? <FiLoader className="mr-1 animate-spin" /> : <FiUpload className="mr-1" />}
+                    <span>Upload font</span>
+                    <input
+                        key={inputKey}
+                        type="file"
+                        multiple
+                        accept={FONT_FILE_ACCEPT}
+                        disabled={busy}
+                        onChange={(e) => upload(Array.from(e.target.files ?? []))}
+                        className="absolute inset-0 opacity-0 cursor-pointer"
+                    />
+                </label>
+            </div>
+            <div className="space-y-1">
+                {fonts.length === 0 && <div className="text-sm text-gray-600">No fonts uploaded (TTF, OTF, WOFF)</div>}
+                {fonts.map((f) => (
+                    <div key={f.family} className="flex items-center justify-between gap-2 bg-gray-100 p-2 rounded">
+                        <div className="min-w-0">
+                            <div className="text-lg truncate" style={{ fontFamily: cssFontFamily(f.family) }}>{f.family}</div>
+                            <div className="text-xs text-gray-500 truncate">{f.file.name}</div>
+                        </div>
+                        <button className="px-2 py-1 rounded text-xs cursor-pointer" onClick={() => remove(f.family)}>
+                            <FiTrash size={16} color="red" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
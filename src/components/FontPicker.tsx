@@ -0,0 +1,61 @@
+// src/components/FontPicker.tsx
+import { useEffect, useRef, useState } from 'react'
+import { FiChevronDown } from 'react-icons/fi'
+import { useDesignStore } from '../store/designStore'
+import { BUILTIN_FONTS, cssFontFamily } from '../utils/fontUtils'
+
+// Font dropdown that previews every entry in its own font; uploaded fonts come first
+export default function FontPicker({ value, onChange }: { value: string; onChange: (family: string) => void }) {
+    const fonts = useDesignStore((s) => s.fonts)
+    const [open, setOpen] = useState(false)
+    const rootRef = useRef<HTMLDivElement | null>(null)
+
+    // close when clicking anywhere else
+    useEffect(() => {
+        if (!open) return
+        const onDown = (e: MouseEvent) => {
+            if (!rootRef.current?.contains(e.target as Node)) setOpen(false)
+        }
+        document.addEventListener('mousedown', onDown)
+        return () => document.removeEventListener('mousedown', onDown)
+    }, [open])
+
+    const choose = (family: string) => {
+        setOpen(false)
+        if (family !== value) onChange(family)
+    }
+    const option = (family: string) => (
+        <button
+            key={family}
+            className={`block w-full text-left px-2 py-1 text-sm truncate cursor-pointer hover:bg-gray-100 ${family === value ? 'bg-sky-50' : ''}`}
+            style={{ fontFamily: cssFontFamily(family) }}
+            onClick={() => choose(family)}
+        >
+            {family}
+        </button>
+    )
+
+    return (
+        <div ref={rootRef} className="relative" onClick={(e) => e.stopPropagation()}>
+            <button
+                className="flex items-center gap-1 w-36 text-xs p-1 rounded text-black bg-white border cursor-pointer"
+                onClick={() => setOpen((o) => !o)}
+            >
+                <span className="flex-1 text-left truncate" style={{ fontFamily: cssFontFamily(value) }}>{value}</span>
+                <FiChevronDown />
+            </button>
+            {open && (
+                <div className="absolute z-20 mt-1 w-48 max-h-64 overflow-auto bg-white text-black border rounded shadow-lg">
+                    {fonts.length > 0 && (
+                        <>
+                            <div className="px-2 pt-1 text-[10px] uppercase text-gray-500">Uploaded</div>
+                            {fonts.map((f) => option(f.family))}
+                            <div className="px-2 pt-1 text-[10px] uppercase text-gray-500">Built in</div>
+                        </>
+                    )}
+                    {BUILTIN_FONTS.map(option)}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,142 @@
+// src/components/ImageOptionsFields.tsx
+import { useState } from 'react'
+import { IMAGE_FORMATS, isValidImageSize, MAX_EXPORT_SIZE, type ImageExportOptions, type ImageFormat } from '../utils/imageExport'
+
+const SIZE_PRESETS = [
+    { label: 'HD', width: 1920, height: 1080 },
+    { label: 'Square', width: 2048, height: 2048 },
+    { label: '4K', width: 3840, height: 2160 },
+    { label: 'Print', width: 6000, height: 6000 },
+]
+
+const PRINT_DPI = 300
+
+// Size / format / background controls shared by the export dialogs
+export default function ImageOptionsFields({ value, onChange, defaultBackground, formats = ['png', 'jpeg', 'webp'], sizePresets = SIZE_PRESETS, allowTransparent = true, maxSize = MAX_EXPORT_SIZE, showPrintSize = true }: {
+    value: ImageExportOptions
+    onChange: (value: ImageExportOptions) => void
+    defaultBackground: string
+    formats?: ImageFormat[]
+    sizePresets?: { label: string; width: number; height: number }[]
+    allowTransparent?: boolean
+    maxSize?: number
+    showPrintSize?: boolean
+}) {
+    // remembered while "Transparent" is picked, so toggling back restores it
+    const [solidColor, setSolidColor] = useState(value.background ?? defaultBackground)
+
+    const hasAlpha = allowTransparent && IMAGE_FORMATS[value.format].alpha
+    const transparent = value.background === null
+    const valid = isValidImageSize(value, maxSize)
+
+    const update = (patch: Partial<ImageExportOptions>) => onChange({ ...value, ...patch })
+    const parseSize = (v: string) => Math.max(0, Math.floor(Number(v) || 0))
+
+    return (
+        <>
+            <div className="text-sm font-semibold mb-1">Size (px)</div>
+            <div className="flex items-center gap-2 mb-2">
+                <input
+                    type="number"
+                    min={1}
+                    max={maxSize}
+                    value={value.width}
+                    onChange={(e) => update({ width: parseSize(e.target.value) })}
+                    className="w-24 border rounded px-2 py-1 text-sm"
+                />
+                <span>×</span>
+                <input
+                    type="number"
+                    min={1}
+                    max={maxSize}
+                    value={value.height}
+                    onChange={(e) => update({ height: parseSize(e.target.value) })}
+                    className="w-24 border rounded px-2 py-1 text-sm"
+                />
+            </div>
+            <div className="flex flex-wrap gap-2 mb-1">
+                {sizePresets.map((p) => (
+                    <button
+                        key={p.label}
+                        className={`px-2 py-1 rounded text-xs cursor-pointer ${value.width === p.width && value.height === p.height ? 'bg-sky-900 text-white' : 'bg-gray-100'}`}
+                        onClick={() => update({ width: p.width, height: p.height })}
+                    >
+                        {p.label} {p.width}×{p.height}
+                    </button>
+                ))}
+            </div>
+            <div className="text-xs text-gray-600 mb-4">
+                {!valid
+                    ? `Width and height must be between 1 and ${maxSize}`
+                    : showPrintSize && `${(value.width / PRINT_DPI).toFixed(1)} × ${(value.height / PRINT_DPI).toFixed(1)} in at ${PRINT_DPI} DPI`}
+            </div>
+
+            {formats.length > 1 && (
+                <>
+                    <div className="text-sm font-semibold mb-1">Format</div>
+                    <div className="flex gap-2 mb-2">
+                        {formats.map((f) => (
+                            <button
+                                key={f}
+                                className={`px-3 py-1 rounded text-sm cursor-pointer ${value.format === f ? 'bg-sky-900 text-white' : 'bg-gray-100'}`}
+                                onClick={() => update({
+                                    format: f,
+                                    // formats without alpha can't be transparent
+                                    background: IMAGE_FORMATS[f].alpha ? value.background : (value.background ?? solidColor),
+                                })}
+                            >
+                                {IMAGE_FORMATS[f].label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+            {value.format !== 'png' && (
+                <label className="flex items-center gap-2 text-xs mb-2">
+                    <span>Quality</span>
+                    <input
+                        type="range"
+                        min={0.5}
+                        max={1}
+                        step={0.01}
+                        value={value.quality}
+                        onChange={(e) => update({ quality: Number(e.target.value) })}
+                        className="flex-1"
+                    />
+                    <span className="w-8 text-right">{Math.round(value.quality * 100)}</span>
+                </label>
+            )}
+
+            <div className="text-sm font-semibold mb-1 mt-4">Background</div>
+            <div className="flex items-center gap-4 mb-4 text-sm">
+                <label className={`flex items-center gap-1 ${hasAlpha ? 'cursor-pointer' : 'text-gray-400'}`}>
+                    <input
+                        type="radio"
+                        checked={transparent}
+                        disabled={!hasAlpha}
+                        onChange={() => update({ background: null })}
+                    />
+                    Transparent
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="radio"
+                        checked={!transparent}
+                        onChange={() => update({ background: solidColor })}
+                    />
+                    Solid
+                </label>
+                <input
+                    type="color"
+                    value={solidColor}
+                    disabled={transparent}
+                    onChange={(e) => {
+                        setSolidColor(e.target.value)
+                        update({ background: e.target.value })
+                    }}
+                    className="w-10 h-7 cursor-pointer disabled:opacity-40"
+                />
+            </div>
+        </>
+    )
+}
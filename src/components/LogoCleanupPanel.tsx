@@ -0,0 +1,143 @@
+// src/components/LogoCleanupPanel.tsx
+import { useEffect, useState } from 'react'
+import { useDesignStore } from '../store/designStore'
+import {
+    cleanupLogo,
+    DEFAULT_BACKGROUND_TOLERANCE,
+    DEFAULT_LOGO_CLEANUP,
+    guessBackgroundColor,
+    isDefaultCleanup,
+    resolveLogoCleanup,
+    type LogoCleanup,
+} from '../utils/logoCleanup'
+
+// longer side of the preview image, in pixels
+const PREVIEW_SIZE = 240
+// checkerboard behind the preview so removed areas show as transparent
+const CHECKER = 'repeating-conic-gradient(#d1d5db 0% 25%, #ffffff 0% 50%) 0 0 / 16px 16px'
+
+function Slider({ label, value, min, max, onChange }: {
+    label: string
+    value: number
+    min: number
+    max: number
+    onChange: (value: number) => void
+}) {
+    return (
+        <label className="block text-xs">
+            <span className="flex justify-between text-gray-600">
+                <span>{label}</span>
+                <span className="text-gray-500">{value}</span>
+            </span>
+            <input type="range" className="w-full" min={min} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+        </label>
+    )
+}
+
+// Background removal, trim, one-ink, invert and brightness/contrast for one uploaded logo.
+// Edits are previewed here and only reach the decals on Apply.
+export default function LogoCleanupPanel({ index, file, onClose }: { index: number; file: File; onClose: () => void }) {
+    const saved = useDesignStore((s) => s.logoCleanups[index] ?? null)
+    const [draft, setDraft] = useState<LogoCleanup>(() => resolveLogoCleanup(saved))
+    const [img, setImg] = useState<HTMLImageElement | null>(null)
+    const [preview, setPreview] = useState<string | null>(null)
+
+    useEffect(() => {
+        const url = URL.createObjectURL(file)
+        const image = new Image()
+        image.onload = () => setImg(image)
+        image.src = url
+        return () => {
+            image.onload = null
+            URL.revokeObjectURL(url)
+        }
+    }, [file])
+
+    useEffect(() => {
+        if (!img) return
+        setPreview(cleanupLogo(img, draft, PREVIEW_SIZE).toDataURL('image/png'))
+    }, [img, draft])
+
+    const set = (patch: Partial<LogoCleanup>) => setDraft((d) => ({ ...d, ...patch }))
+    const apply = () => {
+        useDesignStore.getState().setLogoCleanup(index, isDefaultCleanup(draft) ? null : resolveLogoCleanup(draft))
+        onClose()
+    }
+
+    return (
+        <div className="mt-2 p-2 bg-white rounded border space-y-2 text-black">
+            <div className="flex justify-center rounded" style={{ background: CHECKER }}>
+                {preview && <img src={preview} alt={`${file.name} cleaned up`} className="max-h-40 object-contain" />}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs">
+                <input
+                    type="checkbox"
+                    checked={!!draft.background}
+                    disabled={!img}
+                    onChange={(e) => set({
+                        background: e.target.checked && img
+                            ? { color: guessBackgroundColor(img), tolerance: DEFAULT_BACKGROUND_TOLERANCE }
+                            : null,
+                    })}
+                />
+                Remove background
+                {draft.background && (
+                    <input
+                        type="color"
+                        className="ml-auto w-8 h-6 cursor-pointer"
+                        value={draft.background.color}
+                        onChange={(e) => set({ background: { ...draft.background!, color: e.target.value } })}
+                    />
+                )}
+            </label>
+            {draft.background && (
+                <Slider
+                    label="Tolerance"
+                    value={draft.background.tolerance}
+                    min={0}
+                    max={100}
+                    onChange={(v) => set({ background: { ...draft.background!, tolerance: v } })}
+                />
+            )}
+
+            <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={draft.trim} onChange={(e) => set({ trim: e.target.checked })} />
+                Trim to content
+            </label>
+
+            <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={!!draft.oneInk} onChange={(e) => set({ oneInk: e.target.checked ? '#000000' : null })} />
+                One ink
+                {draft.oneInk && (
+                    <input
+                        type="color"
+                        className="ml-auto w-8 h-6 cursor-pointer"
+                        value={draft.oneInk}
+                        onChange={(e) => set({ oneInk: e.target.value })}
+                    />
+                )}
+            </label>
+
+            <label className="flex items-center gap-2 text-xs">
+                <input type="checkbox" checked={draft.invert} onChange={(e) => set({ invert: e.target.checked })} />
+                Invert colors
+            </label>
+
+            <Slider label="Brightness" value={draft.brightness} min={-100} max={100} onChange={(v) => set({ brightness: v })} />
+            <Slider label="Contrast" value={draft.contrast} min={-100} max={100} onChange={(v) => set({ contrast: v })} />
+
+            <div className="flex justify-end gap-2">
+                <button className="px-2 py-1 rounded text-xs cursor-pointer bg-gray-100" onClick={() => setDraft(resolveLogoCleanup(DEFAULT_LOGO_CLEANUP))}>
+                    Reset
+                </button>
+                <button className="px-2 py-1 rounded text-xs cursor-pointer bg-gray-100" onClick={onClose}>
+                    Cancel
+                </button>
+                <button className="px-2 py-1 rounded text-xs cursor-pointer bg-sky-900 text-white" onClick={apply}>
+                    Apply
+                </button>
+            </div>
+        </div>
+    )
+}
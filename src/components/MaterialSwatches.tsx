@@ -1,58 +1,10 @@
-import { useEffect, useState } from 'react'
-import * as THREE from 'three'
-import { collectMaterials, sampleMaterialColor, type MaterialGroup } from '../utils/materialUtils'
+import { useDesignStore } from '../store/designStore'
 
-export default function MaterialSwatches({
-    modelRoot,
-    onMaterialGroups,
-}: {
-    modelRoot: THREE.Object3D | null
-    onMaterialGroups?: (groups: MaterialGroup[]) => void
-}) {
-    const [groups, setGroups] = useState<MaterialGroup[]>([])
-
-    useEffect(() => {
-        if (!modelRoot) {
-            setGroups([])
-            onMaterialGroups?.([])
-            return
-        }
-        const gs = collectMaterials(modelRoot)
-        // sample colors for materials (async)
-        Promise.all(
-            gs.map(async (g) => {
-                g.sampleColor = await sampleMaterialColor(g.material as any)
-                return g
-            })
-        ).then((arr) => {
-            setGroups(arr)
-            onMaterialGroups?.(arr)
-        })
-    }, [modelRoot])
-
-    const applyColor = (group: MaterialGroup, hex: string) => {
-        const mat = group.material as THREE.MeshBasicMaterial;
-
-        // If the material has no map, simply set color
-        if (!mat.map) {
-            if (mat.color) {
-                mat.color.set(hex)
-            } else {
-                // if a weird material, try to set 'color' field anyway
-                mat.color = new THREE.Color(hex)
-            }
-            mat.needsUpdate = true
-            // update sample color shown
-            setGroups((prev) => prev.map((p) => (p.id === group.id ? { ...p, sampleColor: hex } : p)))
-            return
-        }
-
-        if (mat.color) mat.color.set(hex)
-        else mat.color = new THREE.Color(hex)
-        mat.needsUpdate = true
-
-        setGroups((prev) => prev.map((p) => (p.id === group.id ? { ...p, sampleColor: hex } : p)))
-    }
+export default function MaterialSwatches() {
+    const modelRoot = useDesignStore((s) => s.modelRoot)
+    // sampled by the store whenever the model root changes
+    const groups = useDesignStore((s) => s.materialGroups)
+    const setMaterialColor = useDesignStore((s) => s.setMaterialColor)
 
     if (!modelRoot) return null
 
@@ -66,7 +18,7 @@ export default function MaterialSwatches({
                         <input
                             type="color"
                             value={g.sampleColor ?? '#888888'}
-                            onChange={(e) => applyColor(g, e.target.value)}
+                            onChange={(e) => setMaterialColor(g.id, e.target.value)}
                             className='w-40 cursor-pointer'
                         />
                     </div>
@@ -0,0 +1,79 @@
+// src/components/ModelUnitsPanel.tsx
+import { useState } from 'react'
+import { useDesignStore } from '../store/designStore'
+import { fromUnit, LENGTH_UNITS, MODEL_AXES, roundToUnit, type LengthUnit, type ModelAxis } from '../utils/units'
+
+export default function ModelUnitsPanel() {
+    const modelSize = useDesignStore((s) => s.modelSize)
+    const modelScale = useDesignStore((s) => s.modelScale)
+    const unit = useDesignStore((s) => s.lengthUnit)
+    const { setLengthUnit, calibrateModel } = useDesignStore.getState()
+    const [axis, setAxis] = useState<ModelAxis>('y')
+    const [value, setValue] = useState('')
+
+    if (!modelSize) return null
+
+    const current = (a: ModelAxis) => roundToUnit(modelSize[a] * modelScale.metersPerUnit, unit)
+    const submit = () => {
+        const n = Number(value)
+        if (!(n > 0)) return
+        calibrateModel(axis, fromUnit(n, unit))
+        setValue('')
+    }
+
+    return (
+        <div className="mt-4">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold">Model size</h3>
+                <div className="flex gap-1">
+                    {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map((u) => (
+                        <button
+                            key={u}
+                            className={`px-2 py-0.5 rounded text-xs cursor-pointer ${unit === u ? 'bg-sky-900 text-white' : 'bg-gray-100 text-black'}`}
+                            onClick={() => setLengthUnit(u)}
+                        >
+                            {LENGTH_UNITS[u].label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-xs">
+                {(Object.keys(MODEL_AXES) as ModelAxis[]).map((a) => (
+                    <div key={a}>
+                        <div className="text-gray-600">{MODEL_AXES[a]}</div>
+                        <div className="font-medium">{current(a)} {LENGTH_UNITS[unit].label}</div>
+                    </div>
+                ))}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+                {modelScale.calibrated ? 'Calibrated from a known dimension.' : "From the file's own units; calibrate if they are wrong."}
+            </div>
+
+            <div className="text-xs text-gray-600 mt-3 mb-1">Calibrate from a known dimension</div>
+            <div className="flex items-center gap-1">
+                <select className="text-xs p-1 rounded text-black border" value={axis} onChange={(e) => setAxis(e.target.value as ModelAxis)}>
+                    {(Object.keys(MODEL_AXES) as ModelAxis[]).map((a) => <option key={a} value={a}>{MODEL_AXES[a]}</option>)}
+                </select>
+                <input
+                    type="number"
+                    min={0}
+                    step={LENGTH_UNITS[unit].step}
+                    placeholder={String(current(axis))}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && submit()}
+                    className="w-20 border rounded px-1 py-1 text-xs text-black"
+                />
+                <span className="text-xs">{LENGTH_UNITS[unit].label}</span>
+                <button
+                    className="bg-sky-900 hover:bg-sky-950 text-white px-3 py-1 rounded text-xs cursor-pointer disabled:opacity-50"
+                    onClick={submit}
+                    disabled={!(Number(value) > 0)}
+                >
+                    Set
+                </button>
+            </div>
+        </div>
+    )
+}
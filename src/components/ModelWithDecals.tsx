@@ -1,7 +1,7 @@
 // src/components/ModelWithDecals.tsx
-import { useRef, useState, useEffect, useMemo } from 'react'
+import { useRef, useEffect, useMemo } from 'react'
 import * as THREE from 'three'
-import { useFrame, useThree } from '@react-three/fiber'
+import { useThree } from '@react-three/fiber'
 import { useGLTF } from '@react-three/drei'
 import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry.js'
 import { useDecalCommands } from '../hooks/useDecalCommands'
@@ -9,20 +9,50 @@ import { useDecals } from '../hooks/useDecals'
 import { useModelCommands } from '../hooks/useModelCommands'
 import { useDecalDrag } from '../hooks/useDecalDrag'
 import { useModelReset } from '../hooks/useModelReset'
+import { useDecalImport } from '../hooks/useDecalImport'
+import { useProjectFile } from '../hooks/useProjectFile'
+import { useSessionAutosave } from '../hooks/useSessionAutosave'
+import { useLogoResolution } from '../hooks/useLogoResolution'
+import { useHiddenDecalHighlight } from '../hooks/useHiddenDecalHighlight'
+import { useDecalSelection } from '../hooks/useDecalSelection'
+import { captureDecalState, containerScale, decalBoxSize, decalSize, flipCanvas, pushDecalHistory, type DecalSize } from '../utils/decalUtils'
+import { renderTextDecal, type TextPath, type TextStyle } from '../utils/textDecal'
+import { drawLogo, isVectorLogo, logoCanvasSize, TEXT_CANVAS_SIZE, type LogoSource } from '../utils/logoRaster'
+import { cleanupLogo, cleanupSize, type LogoCleanup } from '../utils/logoCleanup'
+import { createDecalMaterial, DECAL_RENDER_ORDER, disposeDecalMaterial, type DecalAppearance, type DecalBlendMode, type DecalFinish } from '../utils/decalFinish'
+import type { DecalMirror } from '../utils/decalMirror'
+import { useDesignStore, type SceneController } from '../store/designStore'
+import { useHistoryStore } from '../store/historyStore'
+import DecalGizmo from './DecalGizmo'
+
+// pointer travel in pixels up to which a press and release still count as a click
+const CLICK_SLOP = 4
 
 export type AssetRef = { type: 'logo' | 'text'; index: number }
 export type DecalRec = {
     id: string
     mesh: THREE.Mesh
     thumb?: string
-    // size stored as decal width (world units). We won't use mesh.scale for visual size.
+    // size stored as decal width (model space, see decalBoxSize). We won't use mesh.scale for visual size.
     sizeForDecal: number
+    // set when width and height were unlocked; otherwise the height follows the canvas (see decalSize)
+    heightForDecal?: number
+    flipX?: boolean
+    flipY?: boolean
+    // print method; absent means the flat, unlit look
+    finish?: DecalFinish
+    // 0–1, absent while fully opaque
+    opacity?: number
+    blendMode?: DecalBlendMode
+    // set while linked to a mirrored twin; edits to either side are applied to both
+    mirror?: DecalMirror
     canvas: HTMLCanvasElement
     meta: AssetRef
     text?: string
     font?: string
     color?: string
-    size?: number
+    textStyle?: TextStyle
+    textPath?: TextPath
 
     // important surface attachment info:
     hitObject?: THREE.Object3D   // the mesh we projected onto
@@ -35,19 +65,41 @@ export type DecalRec = {
     baseLocalRotation?: THREE.Quaternion // Orientation relative to hitObject at 0 degrees rotation
 }
 
-export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection, bgColor }: {
+// Everything needed to rebuild a decal's canvas and mesh from scratch (saved projects, history).
+export type DecalState = Pick<DecalRec, 'id' | 'meta' | 'text' | 'font' | 'color' | 'fontSize' | 'textStyle' | 'textPath' | 'sizeForDecal' | 'heightForDecal' | 'flipX' | 'flipY' | 'finish' | 'opacity' | 'blendMode' | 'mirror' | 'rotationDeg'> & {
+    hitObject: THREE.Object3D
+    localPosition: THREE.Vector3
+    localNormal: THREE.Vector3
+    baseLocalRotation?: THREE.Quaternion
+}
+
+// What makeCanvasForAsset draws: text content and styling, or a logo at a resolution
+export type AssetCanvasOptions = {
+    text?: string
+    font?: string
+    color?: string
+    fontSize?: number
+    style?: TextStyle
+    path?: TextPath
+    // longer side of logo canvases, in pixels
+    resolution?: number
+    flipX?: boolean
+    flipY?: boolean
+}
+
+export default function ModelWithDecals({ glbUrl, sessionId, modelName }: {
     glbUrl: string | null
-    logos: File[]
-    texts: string[]
-    assetSelection: AssetRef | null
-    bgColor: string
+    sessionId?: string | null
+    modelName?: string
 }) {
     const containerRef = useRef<THREE.Group | null>(null) // top-level container that will be attached once
     const modelRef = useRef<THREE.Group | null>(null) // group for the model node
     const decalsGroupRef = useRef<THREE.Group | null>(null) // group for decal meshes
     const { camera, gl, scene } = useThree()
-    const [decals, setDecals] = useState<DecalRec[]>([])
-    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const logos = useDesignStore(s => s.logos)
+    const logoCleanups = useDesignStore(s => s.logoCleanups)
+    const texts = useDesignStore(s => s.texts)
+    const assetSelection = useDesignStore(s => s.assetSelection)
     const raycaster = useMemo(() => new THREE.Raycaster(), [])
     const logoImgsRef = useRef<(HTMLImageElement | null)[]>([])
     const gltf = useGLTF(glbUrl ?? '')
@@ -62,6 +114,47 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         })
     }, [logos])
 
+    // Cleaned-up copies of logo images, redone only when the image or its clean-up changes
+    const cleanedLogosRef = useRef(new WeakMap<HTMLImageElement, { cleanup: LogoCleanup; canvas: HTMLCanvasElement }>())
+    const logoSource = (index: number): LogoSource | null => {
+        const img = logoImgsRef.current[index]
+        if (!img || !img.complete || !img.naturalWidth) return null
+        const { logos, logoCleanups } = useDesignStore.getState()
+        const cleanup = logoCleanups[index]
+        if (!cleanup) return img
+        const cached = cleanedLogosRef.current.get(img)
+        if (cached?.cleanup === cleanup) return cached.canvas
+        const canvas = cleanupLogo(img, cleanup, cleanupSize(img, isVectorLogo(logos[index])))
+        cleanedLogosRef.current.set(img, { cleanup, canvas })
+        return canvas
+    }
+
+    // Redraw placed decals whose logo got a different clean-up; the trim can change their aspect ratio
+    const logoCleanupsRef = useRef(new Map<File, LogoCleanup | null>())
+    // this render's buildDecal (declared below); the redraw only follows the logos and their clean-ups
+    const buildDecalRef = useRef<((state: DecalState) => DecalRec) | null>(null)
+    useEffect(() => {
+        buildDecalRef.current = buildDecal
+    })
+    useEffect(() => {
+        const previous = logoCleanupsRef.current
+        const current = new Map(logos.map((f, i) => [f, logoCleanups[i] ?? null]))
+        logoCleanupsRef.current = current
+        const { decals, setDecals } = useDesignStore.getState()
+        const redrawn = new Map<string, DecalRec>()
+        for (const rec of decals) {
+            const file = rec.meta.type === 'logo' ? logos[rec.meta.index] : undefined
+            if (!file || !previous.has(file) || previous.get(file) === current.get(file)) continue
+            const state = captureDecalState(rec)
+            if (!state || !buildDecalRef.current) continue
+            rec.mesh.geometry.dispose()
+            disposeDecalMaterial(rec.mesh.material)
+            decalsGroupRef.current?.remove(rec.mesh)
+            redrawn.set(rec.id, buildDecalRef.current(state))
+        }
+        if (redrawn.size) setDecals(prev => prev.map(p => redrawn.get(p.id) ?? p))
+    }, [logos, logoCleanups])
+
     // Ensure container/model/decals groups exist
     useEffect(() => {
         if (!containerRef.current) {
@@ -74,62 +167,65 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         if (!containerRef.current.children.includes(decalsGroupRef.current)) containerRef.current.add(decalsGroupRef.current)
     }, [])
 
+    // Decals carried by a GLB we exported earlier come back as editable decals
+    const importDecals = useDecalImport({
+        glbUrl,
+        modelName: modelName ?? 'model.glb',
+        modelRef,
+    })
+
     // When the GLTF changes, clear previous model and set new into modelRef
     useModelReset({
         gltf,
         camera,
-        modelRef
+        modelRef,
+        onDecalsImported: importDecals,
     })
 
-
-    // Helper: build canvas for an asset (text or logo)
-    const makeCanvasForAsset = (asset: AssetRef, opts?: { text?: string; font?: string; color?: string; fontSize?: number }) => {
-        const SIZE = 512
-        const canvas = document.createElement('canvas')
-        canvas.width = SIZE
-        canvas.height = SIZE
-        const ctx = canvas.getContext('2d')!
-        ctx.clearRect(0, 0, SIZE, SIZE)
-
+    // Helper: build canvas for an asset (text or logo), fitted to the artwork's aspect ratio.
+    // Logos default to the configured bitmap resolution; useLogoResolution then adapts vector logos.
+    const makeCanvasForAsset = (asset: AssetRef, opts?: AssetCanvasOptions) => {
+        let canvas: HTMLCanvasElement
         if (asset.type === 'text') {
             const t = opts?.text ?? texts[asset.index] ?? 'Text'
             const color = opts?.color ?? '#000000'
             const fontChoice = opts?.font ?? 'sans-serif'
             // use fontSize from opts if provided, otherwise fallback to adaptive
-            const fontSize = opts?.fontSize ?? Math.max(32, Math.min(96, Math.floor(280 / Math.max(1, t.length))))
-            ctx.fillStyle = color
-            ctx.textAlign = 'center'
-            ctx.textBaseline = 'middle'
-            ctx.font = `bold ${fontSize}px ${fontChoice}`
-            ctx.fillText(t, SIZE / 2, SIZE / 2)
+            const longest = Math.max(1, ...t.split('\n').map(l => l.length))
+            const fontSize = opts?.fontSize ?? Math.max(32, Math.min(96, Math.floor(280 / longest)))
+            canvas = renderTextDecal({ text: t, font: fontChoice, color, fontSize, style: opts?.style, path: opts?.path }, TEXT_CANVAS_SIZE)
         } else {
-            const img = logoImgsRef.current[asset.index]
-            if (img && img.complete && img.naturalWidth) {
-                const scale = Math.min(SIZE / img.width, SIZE / img.height) * 0.85
-                const w = img.width * scale
-                const h = img.height * scale
-                const x = (SIZE - w) / 2
-                const y = (SIZE - h) / 2
-                ctx.drawImage(img, x, y, w, h)
+            const SIZE = opts?.resolution ?? useDesignStore.getState().logoResolution
+            const source = logoSource(asset.index)
+            canvas = document.createElement('canvas')
+            if (source) {
+                const { width, height } = logoCanvasSize(source, SIZE)
+                canvas.width = width
+                canvas.height = height
+                drawLogo(canvas, source)
             } else {
+                canvas.width = SIZE
+                canvas.height = SIZE
+                const ctx = canvas.getContext('2d')!
                 ctx.fillStyle = '#cccccc'
                 ctx.fillRect(SIZE * 0.25, SIZE * 0.25, SIZE * 0.5, SIZE * 0.5)
             }
         }
-        return canvas
+        return flipCanvas(canvas, opts?.flipX, opts?.flipY)
     }
 
     // Helper: create decal mesh and return mesh + material + texture
-    // Helper: create decal mesh — accepts rotationDeg (deg around normal) and width (world units)
+    // Helper: create decal mesh — accepts rotationDeg (deg around normal), size (model space, see decalSize) and appearance
     const createDecalMesh = (
         hitObject: THREE.Object3D,
         point: THREE.Vector3,
         normal: THREE.Vector3,
         canvas: HTMLCanvasElement,
-        width = 0.5,
+        size: DecalSize,
         rotationDeg = 0,
         camera?: THREE.Camera,
-        baseLocalRotation?: THREE.Quaternion
+        baseLocalRotation?: THREE.Quaternion,
+        appearance?: DecalAppearance
     ) => {
         let finalQuat: THREE.Quaternion
 
@@ -180,39 +276,13 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
 
         const euler = new THREE.Euler().setFromQuaternion(finalQuat, 'XYZ')
 
-        // depth small; keep depth proportional to width (thin)
-        const depth = Math.max(0.01, width * 0.15)
         const OFFSET = 0.005; // offset to prevent clipping
         const placementPoint = point.clone().add(normal.clone().multiplyScalar(OFFSET));
 
-        // Use: oversized box with padding
-        const padding = 1.5;      // 1.4–1.8 works great
-        const depthPadding = 4;   // 3–6 for curved surfaces
-
-        const decalGeo = new DecalGeometry(
-            hitObject as any,
-            placementPoint,
-            euler,
-            new THREE.Vector3(
-                width * padding,
-                width * padding,
-                depth * depthPadding
-            )
-        );
-
-        const tex = new THREE.CanvasTexture(canvas)
-            ; (tex as any).encoding = (THREE as any).sRGBEncoding ?? (THREE as any).SRGBColorSpace
-            ; (tex as any).needsUpdate = true
-
-        const mat = new THREE.MeshBasicMaterial({
-            map: tex,
-            transparent: true,
-            depthWrite: false,
-            depthTest: false,
-            polygonOffset: true,
-            polygonOffsetFactor: -1,
-            toneMapped: false,
-        })
+        const decalGeo = new DecalGeometry(hitObject as any, placementPoint, euler, decalBoxSize(size, containerScale(containerRef.current)));
+
+        const mat = createDecalMaterial(canvas, appearance)
+        const tex = mat.map as THREE.CanvasTexture
 
         const mesh = new THREE.Mesh(decalGeo, mat)
 
@@ -223,12 +293,42 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         }
 
         mesh.userData.selectable = true
-        mesh.renderOrder = 999999
+        mesh.renderOrder = DECAL_RENDER_ORDER
         mesh.frustumCulled = false
         return { mesh, mat, tex, euler, finalQuat }
     }
 
 
+    // Helper: rebuild a decal (canvas + mesh) at its saved surface anchor and add it to the decal group
+    const buildDecal = (state: DecalState): DecalRec => {
+        containerRef.current?.updateMatrixWorld(true)
+        const canvas = makeCanvasForAsset(state.meta, {
+            text: state.text,
+            font: state.font,
+            color: state.color,
+            fontSize: state.fontSize,
+            style: state.textStyle,
+            path: state.textPath,
+            flipX: state.flipX,
+            flipY: state.flipY,
+        })
+        const position = state.localPosition.clone().applyMatrix4(state.hitObject.matrixWorld)
+        const normal = state.localNormal.clone().transformDirection(state.hitObject.matrixWorld).normalize()
+        const { mesh } = createDecalMesh(state.hitObject, position, normal, canvas, decalSize({ ...state, canvas }), state.rotationDeg ?? 0, camera, state.baseLocalRotation, state)
+        decalsGroupRef.current!.add(mesh)
+        return {
+            ...state,
+            mesh,
+            canvas,
+            thumb: canvas.toDataURL('image/png'),
+            position,
+            normal,
+            localPosition: state.localPosition.clone(),
+            localNormal: state.localNormal.clone(),
+            baseLocalRotation: state.baseLocalRotation?.clone(),
+        }
+    }
+
     // Place a decal on model when pointer down (one-time placement). Raycast against the actual model node.
     const onPointerDown = (e: any) => {
         e.stopPropagation()
@@ -253,7 +353,7 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         // DecalGeometry wants a mesh
         const targetMesh = hit.object as THREE.Mesh
 
-        const { mesh, finalQuat } = createDecalMesh(targetMesh, point, normal, canvas, size, 0, camera)
+        const { mesh, finalQuat } = createDecalMesh(targetMesh, point, normal, canvas, decalSize({ sizeForDecal: size, canvas }), 0, camera)
 
         // Compute baseLocalRotation (orientation relative to hitObject at 0 deg)
         const objWorldQuat = new THREE.Quaternion()
@@ -267,7 +367,8 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         const rec: DecalRec = {
             id,
             mesh,
-            sizeForDecal: size,            // width in world units
+            thumb: canvas.toDataURL('image/png'),
+            sizeForDecal: size,            // width in model space
             canvas,
             meta: assetSelection,
             text: assetSelection.type === 'text' ? texts[assetSelection.index] : undefined,
@@ -283,52 +384,91 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
             rotationDeg: 0,
             fontSize: assetSelection.type === 'text' ? Math.max(32, Math.min(96, Math.floor(280 / Math.max(1, (texts[assetSelection.index] || '').length)))) : undefined,
         }
-        setDecals(prev => [...prev, rec])
-        setSelectedId(id)
-
-        const thumb = canvas.toDataURL('image/png')
-        window.dispatchEvent(new CustomEvent('decalPlaced', { detail: { id, thumb, meta: rec.meta, text: rec.text, font: rec.font, color: rec.color } }))
+        const { setDecals, selectDecal, setAssetSelection, symmetryAxis, decalCommand } = useDesignStore.getState()
+        useHistoryStore.getState().transaction(() => {
+            setDecals(prev => [...prev, rec])
+            selectDecal(id)
+            pushDecalHistory('Place decal', null, captureDecalState(rec))
+            // symmetry mode: the mirrored twin is part of the same placement
+            if (symmetryAxis) decalCommand(id, { action: 'mirror', axis: symmetryAxis })
+        })
 
-        // clear selection in App to avoid repeated pasting
-        window.dispatchEvent(new CustomEvent('clearAssetSelection'))
+        // clear the asset selection to avoid repeated pasting
+        setAssetSelection(null)
     }
 
-    // Click to select a decal (raycast against decalsGroup)
+    // Click to select a decal (raycast against decalsGroup); Shift-click adds to or takes from the selection
     useEffect(() => {
+        // where the last press started, so orbiting the camera doesn't count as a click
+        let pressed = { x: 0, y: 0 }
+        const onPress = (e: PointerEvent) => { pressed = { x: e.clientX, y: e.clientY } }
         const handler = (e: MouseEvent) => {
-            if (!decalsGroupRef.current) return
+            // clicks in the side panel and on overlays have their own selection handling
+            if (!decalsGroupRef.current || e.target !== gl.domElement) return
+            if (Math.hypot(e.clientX - pressed.x, e.clientY - pressed.y) > CLICK_SLOP) return
             const rect = gl.domElement.getBoundingClientRect()
             const x = ((e.clientX - rect.left) / rect.width) * 2 - 1
             const y = -((e.clientY - rect.top) / rect.height) * 2 + 1
             raycaster.setFromCamera(new THREE.Vector2(x, y), camera)
             const hits = raycaster.intersectObjects(decalsGroupRef.current.children, true)
             const pick = hits.find(h => h.object.userData.selectable)
+            const { decals, selectDecal } = useDesignStore.getState()
             if (!pick) {
-                setSelectedId(null)
+                if (!e.shiftKey) selectDecal(null)
                 return
             }
             const found = decals.find(d => d.mesh === pick.object || d.mesh === pick.object.parent)
-            if (found) {
-                setSelectedId(found.id)
-                window.dispatchEvent(new CustomEvent('decalSelected', { detail: { id: found.id } }))
-            }
+            if (found) selectDecal(found.id, e.shiftKey)
         }
+        const canvas = gl.domElement
+        canvas.addEventListener('pointerdown', onPress)
         window.addEventListener('click', handler)
-        return () => window.removeEventListener('click', handler)
-    }, [decals, camera, gl, raycaster])
+        return () => {
+            canvas.removeEventListener('pointerdown', onPress)
+            window.removeEventListener('click', handler)
+        }
+    }, [camera, gl, raycaster])
 
-    // Handle decalCommand events coming from the side panel (delete/update)
-    useDecals({
-        decals,
+    // Save to / restore from .mockup project files (after useModelReset so the model is in place)
+    const saveProject = useProjectFile({
+        gltf,
+        glbUrl,
+        camera,
+        containerRef,
+        modelRef,
+        logoImgsRef,
+        buildDecal,
+    })
+
+    // Keep the current design autosaved in IndexedDB for crash recovery
+    useSessionAutosave({
+        sessionId: sessionId ?? null,
+        modelName: modelName ?? 'model.glb',
+        glbUrl,
+        camera,
+        containerRef,
+        modelRef,
+    })
+
+    // Decal commands coming from the side panel, history or store callers (delete/update/restore)
+    const decalCommand = useDecals({
+        modelRef,
         decalsGroupRef,
-        setDecals,
-        setSelectedId,
         makeCanvasForAsset,
-        createDecalMesh
+        createDecalMesh,
+        buildDecal
+    })
+
+    // Group edits on the selected decals, and copy / paste to this or another model
+    const { selectionCommand, copyDecals, pasteDecals } = useDecalSelection({
+        modelRef,
+        decalsGroupRef,
+        logoImgsRef,
+        buildDecal,
     })
 
     // Model commands: zoom / rotate applied to the container (so decals move with model)
-    useModelCommands({ containerRef })
+    const modelCommand = useModelCommands({ containerRef })
 
     // direct drag: pointerdown on a decal initiates drag (move along model surface)
     useDecalDrag({
@@ -337,69 +477,86 @@ export default function ModelWithDecals({ glbUrl, logos, texts, assetSelection,
         raycaster,
         modelRef,
         decalsGroupRef,
-        decals,
-        setDecals,
-        assetSelection,
-        setSelectedId,
     })
 
+    // SVG logos follow their on-screen size, bitmap logos the configured resolution
+    const prepareLogoExport = useLogoResolution({
+        gl,
+        camera,
+        logoImgsRef,
+        makeCanvasForAsset,
+    })
 
-    // Side-panel selection -> select decal by id
-    useEffect(() => {
-        const handler = (e: any) => {
-            const id = e.detail?.id
-            if (!id) return
-            setSelectedId(id)
-        }
-        window.addEventListener('selectDecalById', handler)
-        return () => window.removeEventListener('selectDecalById', handler)
-    }, [])
+    // while editing, optionally show where decals are hidden behind the model
+    useHiddenDecalHighlight({
+        scene,
+        camera,
+        containerRef,
+    })
 
-    useDecalCommands({
+    const { exportImage, exportViews, exportTurntable, exportGLB, exportUSDZ, exportTechPack, clearDecals } = useDecalCommands({
         gl,
         scene,
         camera,
-        decals,
+        containerRef,
+        modelRef,
         decalsGroupRef,
-        setDecals,
-        bgColor
+        prepareLogoExport,
     })
 
-
-    // UI anchor for selected decal (compute world position each frame)
-    useFrame(() => {
-        if (!selectedId) {
-            return
-        }
-        const rec = decals.find(d => d.id === selectedId)
-        if (!rec) {
-            return
-        }
-        const p = new THREE.Vector3()
-        rec.mesh.getWorldPosition(p)
+    // Expose the scene operations to the design store. The registered controller is
+    // stable and forwards to the latest render's handlers, so subscribers don't churn.
+    const sceneHandlersRef = useRef<SceneController | null>(null)
+    useEffect(() => {
+        sceneHandlersRef.current = { decalCommand, selectionCommand, copyDecals, pasteDecals, modelCommand, clearDecals, exportImage, exportViews, exportTurntable, exportGLB, exportUSDZ, exportTechPack, saveProject }
     })
+    useEffect(() => {
+        const forward = sceneHandlersRef
+        const controller: SceneController = {
+            decalCommand: (id, cmd) => forward.current?.decalCommand(id, cmd),
+            selectionCommand: (cmd) => forward.current?.selectionCommand(cmd),
+            copyDecals: () => forward.current?.copyDecals(),
+            pasteDecals: async () => forward.current?.pasteDecals(),
+            modelCommand: (cmd) => forward.current?.modelCommand(cmd),
+            clearDecals: () => forward.current?.clearDecals(),
+            exportImage: async (options) => forward.current?.exportImage(options),
+            exportViews: async (options) => forward.current?.exportViews(options),
+            exportTurntable: async (options, onProgress) => forward.current?.exportTurntable(options, onProgress),
+            exportGLB: async (options) => forward.current?.exportGLB(options),
+            exportUSDZ: async (options) => (await forward.current?.exportUSDZ(options)) ?? null,
+            exportTechPack: async (options) => forward.current?.exportTechPack(options),
+            saveProject: async (name) => forward.current?.saveProject(name),
+        }
+        const { registerScene } = useDesignStore.getState()
+        registerScene(controller)
+        return () => registerScene(null)
+    }, [])
 
     // Render container group once and rely on modelRef & decalsGroupRef being children of it.
     // We don't render decal primitives separately because we add meshes into decalsGroupRef manually.
+    // The selected decal's gizmo sits outside the container, so model exports never include it.
     return (
-        <group
-            ref={(g) => {
-                if (!g) return
-                // make sure container is created and attached only once
-                if (!containerRef.current) {
-                    containerRef.current = new THREE.Group()
-                    modelRef.current = new THREE.Group()
-                    decalsGroupRef.current = new THREE.Group()
-                    containerRef.current.add(modelRef.current)
-                    containerRef.current.add(decalsGroupRef.current)
-                }
-                // attach containerRef to this react group if not already attached
-                if (containerRef.current.parent !== g) {
-                    g.add(containerRef.current)
-                }
-            }}
-            onPointerDown={onPointerDown}
-        >
-        </group>
+        <>
+            <group
+                ref={(g) => {
+                    if (!g) return
+                    // make sure container is created and attached only once
+                    if (!containerRef.current) {
+                        containerRef.current = new THREE.Group()
+                        modelRef.current = new THREE.Group()
+                        decalsGroupRef.current = new THREE.Group()
+                        containerRef.current.add(modelRef.current)
+                        containerRef.current.add(decalsGroupRef.current)
+                    }
+                    // attach containerRef to this react group if not already attached
+                    if (containerRef.current.parent !== g) {
+                        g.add(containerRef.current)
+                    }
+                }}
+                onPointerDown={onPointerDown}
+            >
+            </group>
+            <DecalGizmo />
+        </>
     )
 }
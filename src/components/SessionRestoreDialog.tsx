@@ -0,0 +1,59 @@
+// src/components/SessionRestoreDialog.tsx
+import { FiClock, FiTrash } from 'react-icons/fi'
+import type { SessionSummary } from '../utils/sessionDb'
+
+export default function SessionRestoreDialog({ sessions, onRestore, onDelete, onClose }: {
+    sessions: SessionSummary[]
+    onRestore: (id: string) => void
+    onDelete: (id: string) => void
+    onClose: () => void
+}) {
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60">
+            <div className="w-[28rem] max-h-[80vh] overflow-auto bg-white text-black rounded p-5 shadow-xl">
+                <h2 className="text-lg font-bold mb-1">Restore previous session</h2>
+                <p className="text-sm text-gray-600 mb-4">Your recent designs were saved automatically. Pick one to continue where you left off.</p>
+
+                <div className="space-y-2">
+                    {sessions.length === 0 && <div className="text-sm text-gray-600">No saved sessions</div>}
+                    {sessions.map((s) => (
+                        <div key={s.id} className="flex items-center justify-between gap-2 bg-gray-100 p-2 rounded">
+                            <div className="min-w-0">
+                                <div className="text-sm font-medium truncate">{s.name}</div>
+                                <div className="text-xs text-gray-600 flex items-center gap-1">
+                                    <FiClock size={12} />
+                                    <span>{new Date(s.updatedAt).toLocaleString()}</span>
+                                    <span>· {s.decalCount} decals, {s.logoCount} logos, {s.textCount} texts</span>
+                                </div>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <button
+                                    className="px-2 py-1 bg-sky-900 text-white rounded text-xs cursor-pointer"
+                                    onClick={() => onRestore(s.id)}
+                                >
+                                    Restore
+                                </button>
+                                <button
+                                    className="px-2 py-1 rounded text-xs cursor-pointer"
+                                    title="Delete session"
+                                    onClick={() => {
+                                        if (!window.confirm(`Delete the saved session "${s.name}"?`)) return
+                                        onDelete(s.id)
+                                    }}
+                                >
+                                    <FiTrash size={16} color="red" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-5 flex justify-end">
+                    <button className="px-4 py-2 rounded border border-gray-500 text-sm cursor-pointer" onClick={onClose}>
+                        Start fresh
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
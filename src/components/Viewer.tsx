@@ -5,7 +5,7 @@ import { OrbitControls, Environment, Html } from '@react-three/drei'
 import ModelWithDecals from './ModelWithDecals'
 import { FiLoader } from 'react-icons/fi'
 
-export default function Viewer({ glbUrl, logos, texts, assetSelection, bgColor = '#070a12' }: any) {
+export default function Viewer({ glbUrl, bgColor = '#070a12', sessionId = null, modelName }: any) {
     return (
         <Canvas shadows camera={{ position: [0, 1.5, 3], fov: 50 }} >
             {/* set background color for the scene */}
@@ -18,16 +18,16 @@ export default function Viewer({ glbUrl, logos, texts, assetSelection, bgColor =
                 {glbUrl && (
                     <ModelWithDecals
                         glbUrl={glbUrl}
-                        logos={logos}
-                        texts={texts}
-                        assetSelection={assetSelection}
-                        bgColor={bgColor}
+                        sessionId={sessionId}
+                        modelName={modelName}
                     />
                 )}
                 <Environment preset="sunset" blur={4} />
             </Suspense>
 
             <OrbitControls
+                // registered as the scene's controls, so the autosave can follow camera moves
+                makeDefault
                 enablePan={false}
                 enableZoom={true}
                 enableRotate={true}
@@ -1,90 +1,180 @@
 // src/hooks/useDecalCommands.ts
-import { useEffect } from 'react'
 import * as THREE from 'three'
-import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
-import type { DecalRec } from '../components/ModelWithDecals'
+import type { DecalState } from '../components/ModelWithDecals'
+import { captureDecalState } from '../utils/decalUtils'
+import { disposeDecalMaterial } from '../utils/decalFinish'
+import { useHistoryStore } from '../store/historyStore'
+import { useDesignStore } from '../store/designStore'
+import { downloadBlob } from '../utils/downloadUtils'
+import { canvasToBlob, IMAGE_FORMATS, renderImage, type ImageExportOptions } from '../utils/imageExport'
+import { renderViewSet, type ViewExportOptions } from '../utils/viewExport'
+import { cloneProduct, GLB_EXTENSION, glbFilename, writeGLB, type GlbExportOptions } from '../utils/glbExport'
+import { prepareForUsdz, USDZ_EXTENSION, usdzFilename, writeUSDZ, type UsdzExportOptions } from '../utils/usdzExport'
+import { buildTechPack, techPackFilename, type TechPackOptions } from '../utils/techPack'
+import { renderTurntable, TURNTABLE_FORMATS, type TurntableOptions, type TurntableProgress } from '../utils/turntableExport'
 
+// Returns the scene-side implementations of store.exportImage / exportViews / exportTurntable / exportGLB / exportUSDZ / exportTechPack / clearDecals
 export function useDecalCommands(params: {
     gl: any
     scene: THREE.Scene
     camera: THREE.Camera
-    decals: DecalRec[]
+    containerRef: React.MutableRefObject<THREE.Group | null>
+    modelRef: React.MutableRefObject<THREE.Group | null>
     decalsGroupRef: React.MutableRefObject<THREE.Group | null>
-    setDecals: (fn: (prev: DecalRec[]) => DecalRec[]) => void
-    bgColor: string
+    // redraws SVG logos for an output of this height; returns the undo
+    prepareLogoExport: (outputHeight: number) => () => void
 }) {
-    const { gl, scene, camera, decals, decalsGroupRef, setDecals, bgColor } = params
+    const { gl, scene, camera, containerRef, modelRef, decalsGroupRef, prepareLogoExport } = params
 
-    useEffect(() => {
-        const handler = (e: any) => {
-            if (e.type === 'exportPNG') {
-                if (!gl || !scene || !camera) return
-                const prevSize = gl.getSize(new THREE.Vector2())
-                const prevPixelRatio = gl.getPixelRatio()
-                const prevBackground = scene.background ? scene.background.clone() : null
+    const exportImage = async (options: ImageExportOptions) => {
+        if (!gl || !scene || !camera) return
+        try {
+            const restoreLogos = prepareLogoExport(options.height)
+            let canvas: HTMLCanvasElement
+            try {
+                canvas = renderImage({
+                    gl,
+                    scene,
+                    camera,
+                    width: options.width,
+                    height: options.height,
+                    background: options.background,
+                })
+            } finally {
+                restoreLogos()
+            }
+            const blob = await canvasToBlob(canvas, options.format, options.quality)
+            downloadBlob(blob, `mockup.${IMAGE_FORMATS[options.format].ext}`)
+        } catch (err) {
+            console.error('Image export failed', err)
+            window.alert('Could not export the image. Try a smaller size.')
+        }
+    }
 
-                try {
-                    const dpr = Math.min(window.devicePixelRatio || 1, 2)
-                    const isPersp = (camera as any).isPerspectiveCamera
-                    const aspect = isPersp ? (camera as THREE.PerspectiveCamera).aspect : (prevSize.x && prevSize.y ? prevSize.x / prevSize.y : window.innerWidth / window.innerHeight)
-                    const h = Math.floor(window.innerHeight * dpr)
-                    const w = Math.floor(h * aspect)
-                    gl.setPixelRatio(dpr)
-                    gl.setSize(w, h, false)
-                    scene.background = null
-                    gl.render(scene, camera)
-                    const url = gl.domElement.toDataURL('image/png')
-                    const a = document.createElement('a')
-                    a.href = url
-                    a.download = 'mockup.png'
-                    a.click()
-                    a.remove()
-                } finally {
-                    gl.setSize(prevSize.x, prevSize.y, false)
-                    gl.setPixelRatio(prevPixelRatio)
-                    if (prevBackground) scene.background = prevBackground
-                    else scene.background = new THREE.Color(bgColor)
-                }
-            } else if (e.type === 'exportGLB') {
-                const exporter = new GLTFExporter()
-                const exportScene = scene.clone(true)
+    const exportViews = async (options: ViewExportOptions) => {
+        if (!gl || !scene || !camera || !containerRef.current || !options.views.length) return
+        try {
+            const zip = await renderViewSet({ gl, scene, camera, container: containerRef.current, options })
+            downloadBlob(zip, 'mockup-views.zip')
+        } catch (err) {
+            console.error('View export failed', err)
+            window.alert('Could not export the views. Try a smaller size.')
+        }
+    }
 
-                exporter.parse(
-                    exportScene,
-                    (result) => {
-                        let blob: Blob
-                        if (result instanceof ArrayBuffer) blob = new Blob([result], { type: 'application/octet-stream' })
-                        else {
-                            const output = JSON.stringify(result, null, 2)
-                            blob = new Blob([output], { type: 'application/json' })
-                        }
-                        const url = URL.createObjectURL(blob)
-                        const a = document.createElement('a')
-                        a.href = url
-                        a.download = 'mockup.glb'
-                        a.click()
-                        URL.revokeObjectURL(url)
-                    },
-                    { binary: true } as any
-                )
-            } else if (e.type === 'clearDecals') {
-                decals.forEach(d => {
-                    d.mesh.geometry.dispose()
-                        ; (d.mesh.material as any).map?.dispose?.()
-                        ; (d.mesh.material as any).dispose?.()
-                    decalsGroupRef.current?.remove(d.mesh)
-                })
-                setDecals(() => [])
-                window.dispatchEvent(new CustomEvent('decalRemoved', { detail: { id: null } }))
+    const exportTurntable = async (options: TurntableOptions, onProgress?: TurntableProgress) => {
+        if (!gl || !scene || !camera || !containerRef.current) return
+        try {
+            const blob = await renderTurntable({ gl, scene, camera, container: containerRef.current, options, onProgress })
+            downloadBlob(blob, `mockup-turntable.${TURNTABLE_FORMATS[options.format].ext}`)
+        } catch (err) {
+            console.error('Turntable export failed', err)
+            window.alert('Could not export the turntable animation.')
+        }
+    }
+
+    // Exports the product only: the container's model and decals, without lights or environment
+    const exportGLB = async (options: GlbExportOptions) => {
+        const container = containerRef.current
+        const modelRoot = modelRef.current
+        if (!container || !modelRoot) return
+        try {
+            const { decals, logos, modelScale } = useDesignStore.getState()
+            const clone = cloneProduct({
+                gl,
+                container,
+                modelRoot,
+                decalsGroup: decalsGroupRef.current,
+                decals,
+                logos,
+                name: glbFilename(options.filename).replace(GLB_EXTENSION, ''),
+                bakeDecals: options.bakeDecals,
+                metersPerUnit: modelScale.metersPerUnit,
+            })
+            downloadBlob(await writeGLB(clone), glbFilename(options.filename))
+        } catch (err) {
+            console.error('GLB export failed', err)
+            window.alert('Could not export the GLB file.')
+        }
+    }
+
+    // Same product as exportGLB, converted for AR Quick Look. Resolves with what the
+    // file could not represent, or null when the export failed
+    const exportUSDZ = async (options: UsdzExportOptions): Promise<string[] | null> => {
+        const container = containerRef.current
+        const modelRoot = modelRef.current
+        if (!container || !modelRoot) return null
+        try {
+            const { decals, logos, modelScale } = useDesignStore.getState()
+            const clone = cloneProduct({
+                gl,
+                container,
+                modelRoot,
+                decalsGroup: decalsGroupRef.current,
+                decals,
+                logos,
+                name: usdzFilename(options.filename).replace(USDZ_EXTENSION, ''),
+                bakeDecals: options.bakeDecals,
+                metersPerUnit: modelScale.metersPerUnit,
+            })
+            const { warnings, dispose } = prepareForUsdz(clone)
+            try {
+                downloadBlob(await writeUSDZ(clone), usdzFilename(options.filename))
+            } finally {
+                dispose()
             }
+            if (warnings.length) console.warn('USDZ export:\n' + warnings.join('\n'))
+            return warnings
+        } catch (err) {
+            console.error('USDZ export failed', err)
+            window.alert('Could not export the USDZ file.')
+            return null
+        }
+    }
+
+    const exportTechPack = async (options: TechPackOptions) => {
+        const container = containerRef.current
+        if (!container || !modelRef.current) return
+        try {
+            const { decals, logos, materialGroups, modelScale, modelSize, lengthUnit } = useDesignStore.getState()
+            const blob = await buildTechPack({
+                gl,
+                scene,
+                camera,
+                container,
+                decals,
+                logos,
+                materialGroups,
+                modelScale,
+                modelSize,
+                unit: lengthUnit,
+                options,
+            })
+            downloadBlob(blob, techPackFilename(options.filename))
+        } catch (err) {
+            console.error('Tech pack export failed', err)
+            window.alert('Could not export the tech pack.')
         }
-        window.addEventListener('exportPNG', handler)
-        window.addEventListener('exportGLB', handler)
-        window.addEventListener('clearDecals', handler)
-        return () => {
-            window.removeEventListener('exportPNG', handler)
-            window.removeEventListener('exportGLB', handler)
-            window.removeEventListener('clearDecals', handler)
+    }
+
+    const clearDecals = () => {
+        const { decals, setDecals, selectDecal, decalCommand } = useDesignStore.getState()
+        const cleared = decals.map(captureDecalState).filter((d): d is DecalState => !!d)
+        if (cleared.length) {
+            useHistoryStore.getState().push({
+                label: 'Clear decals',
+                undo: () => cleared.forEach(state => decalCommand(state.id, { action: 'restore', state })),
+                redo: () => useDesignStore.getState().clearDecals(),
+            })
         }
-    }, [gl, scene, camera, decals, decalsGroupRef, setDecals, bgColor])
+        decals.forEach(d => {
+            d.mesh.geometry.dispose()
+            disposeDecalMaterial(d.mesh.material)
+            decalsGroupRef.current?.remove(d.mesh)
+        })
+        setDecals(() => [])
+        selectDecal(null)
+    }
+
+    return { exportImage, exportViews, exportTurntable, exportGLB, exportUSDZ, exportTechPack, clearDecals }
 }
@@ -1,8 +1,11 @@
 // src/hooks/useDecalDrag.ts
 import { useEffect } from 'react'
 import * as THREE from 'three'
-import type { DecalRec } from '../components/ModelWithDecals'
+import type { DecalRec, DecalState } from '../components/ModelWithDecals'
 import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry.js'
+import { captureDecalState, containerScale, decalBoxSize, decalSize, pushDecalHistory } from '../utils/decalUtils'
+import { useDesignStore } from '../store/designStore'
+import { useHistoryStore } from '../store/historyStore'
 
 export function useDecalDrag(params: {
     gl: any
@@ -10,17 +13,14 @@ export function useDecalDrag(params: {
     raycaster: THREE.Raycaster
     modelRef: React.MutableRefObject<THREE.Group | null>
     decalsGroupRef: React.MutableRefObject<THREE.Group | null>
-    decals: DecalRec[]
-    setDecals: (fn: (prev: DecalRec[]) => DecalRec[]) => void
-    assetSelection: any
-    setSelectedId: (id: string | null) => void
 }) {
-    const { gl, camera, raycaster, modelRef, decalsGroupRef, decals, setDecals, assetSelection, setSelectedId } = params
+    const { gl, camera, raycaster, modelRef, decalsGroupRef } = params
 
     useEffect(() => {
         let activeDragId: string | null = null
         let pointerIdHeld: number | null = null
         let latestXY: { x: number; y: number } | null = null
+        let dragStartState: DecalState | null = null // for a single undo entry per drag gesture
 
         const processLatest = () => {
             if (!activeDragId || !latestXY || !modelRef.current) return
@@ -32,6 +32,7 @@ export function useDecalDrag(params: {
             )
             raycaster.setFromCamera(v2, camera)
 
+            const { decals, setDecals } = useDesignStore.getState()
             const rec = decals.find(d => d.id === activeDragId)
             if (!rec) return
 
@@ -87,18 +88,13 @@ export function useDecalDrag(params: {
             const euler = new THREE.Euler().setFromQuaternion(finalQuat, 'XYZ')
 
             // ———— DECAL BOX (same as placement) ————
-            const width = rec.sizeForDecal ?? 0.5
-            const padding = 1.5
-            const depthPadding = 4
-            const depth = Math.max(0.01, width * 0.15)
-
             const placementPoint = point.clone().add(normalWorld.clone().multiplyScalar(0.005))
 
             const newGeo = new DecalGeometry(
                 hit.object as THREE.Mesh,
                 placementPoint,
                 euler,
-                new THREE.Vector3(width * padding, width * padding, depth * depthPadding)
+                decalBoxSize(decalSize(rec), containerScale(decalsGroupRef.current?.parent))
             )
 
             // Fix for rotating container: transform geometry to container's local space
@@ -111,20 +107,19 @@ export function useDecalDrag(params: {
             if (rec.mesh.geometry) rec.mesh.geometry.dispose()
             rec.mesh.geometry = newGeo
 
-            // Update stored hit info
-            rec.hitObject = hit.object
-            rec.position = placementPoint.clone()
-            rec.normal = normalWorld.clone()
-            rec.localPosition = hit.object.worldToLocal(placementPoint.clone())
-            rec.localNormal = normalWorld.clone().transformDirection(hit.object.matrixWorld.clone().invert()).normalize()
-
-            // Trigger update only if moved significantly
+            // Update stored hit info, only if moved significantly
             const prevPos = rec.position
             const moved = !prevPos || prevPos.distanceTo(placementPoint) > 0.001
 
             if (moved) {
-                setDecals(prev => prev.map(p => p.id === rec.id ? { ...rec } : p))
-                window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id: rec.id } }))
+                const patch: Partial<DecalRec> = {
+                    hitObject: hit.object,
+                    position: placementPoint.clone(),
+                    normal: normalWorld.clone(),
+                    localPosition: hit.object.worldToLocal(placementPoint.clone()),
+                    localNormal: normalWorld.clone().transformDirection(hit.object.matrixWorld.clone().invert()).normalize(),
+                }
+                setDecals(prev => prev.map(p => p.id === rec.id ? { ...p, ...patch } : p))
             }
         }
 
@@ -139,6 +134,7 @@ export function useDecalDrag(params: {
             if (activeDragId) {
                 ev.stopPropagation()
                 // Update baseLocalRotation for the dragged decal so future rotations work correctly
+                const { decals, setDecals } = useDesignStore.getState()
                 const rec = decals.find(d => d.id === activeDragId)
                 if (rec && rec.hitObject && rec.mesh) {
                     const normalWorld = rec.normal!.clone().normalize()
@@ -170,8 +166,27 @@ export function useDecalDrag(params: {
                     const baseLocalRotation = objWorldQuat.clone().invert().multiply(baseWorldQuat)
 
                     // Update record
-                    rec.baseLocalRotation = baseLocalRotation
-                    setDecals(prev => prev.map(p => p.id === rec.id ? { ...rec } : p))
+                    const updated = { ...rec, baseLocalRotation }
+                    setDecals(prev => prev.map(p => p.id === rec.id ? updated : p))
+
+                    const after = captureDecalState(updated)
+                    if (dragStartState && after && !dragStartState.localPosition.equals(after.localPosition)) {
+                        const start = dragStartState
+                        const { symmetryAxis, selectedIds, decalCommand, selectionCommand } = useDesignStore.getState()
+                        // the twin follows; in symmetry mode an unlinked decal gets one
+                        const axis = updated.mirror?.axis ?? symmetryAxis
+                        // the rest of a multi-selection moves by the same model-space offset
+                        const container = decalsGroupRef.current?.parent
+                        const offset = container && selectedIds.length > 1 && selectedIds.includes(rec.id)
+                            ? container.worldToLocal(after.localPosition.clone().applyMatrix4(after.hitObject.matrixWorld))
+                                .sub(container.worldToLocal(start.localPosition.clone().applyMatrix4(start.hitObject.matrixWorld)))
+                            : null
+                        useHistoryStore.getState().transaction(() => {
+                            pushDecalHistory('Move decal', start, after)
+                            if (axis) decalCommand(rec.id, { action: 'mirror', axis })
+                            if (offset) selectionCommand({ action: 'move', offset, except: rec.id })
+                        })
+                    }
                 }
             }
             if (pointerIdHeld !== null && ev.pointerId === pointerIdHeld) {
@@ -180,6 +195,7 @@ export function useDecalDrag(params: {
             activeDragId = null
             pointerIdHeld = null
             latestXY = null
+            dragStartState = null
             window.removeEventListener('pointermove', onPointerMove)
             window.removeEventListener('pointerup', onPointerUp)
             const controls = (gl as any).controls
@@ -188,7 +204,9 @@ export function useDecalDrag(params: {
         }
 
         const onPointerDown = (ev: PointerEvent) => {
-            if (!modelRef.current || !!assetSelection) return
+            const { decals, assetSelection, selectedIds, selectDecal } = useDesignStore.getState()
+            // Shift-click changes the selection (see ModelWithDecals) instead of dragging
+            if (!modelRef.current || !!assetSelection || ev.shiftKey) return
 
             try { gl.domElement.setPointerCapture(ev.pointerId); pointerIdHeld = ev.pointerId } catch { }
 
@@ -212,6 +230,7 @@ export function useDecalDrag(params: {
 
             activeDragId = found.id
             latestXY = null // prevents jump on first move
+            dragStartState = captureDecalState(found)
 
             const controls = (gl as any).controls
             if (controls) controls.enabled = false
@@ -220,8 +239,8 @@ export function useDecalDrag(params: {
             window.addEventListener('pointermove', onPointerMove, { passive: false })
             window.addEventListener('pointerup', onPointerUp)
 
-            setSelectedId(found.id)
-            window.dispatchEvent(new CustomEvent('decalSelected', { detail: { id: found.id } }))
+            // dragging one of several selected decals keeps the selection, to move them all
+            if (!selectedIds.includes(found.id)) selectDecal(found.id)
         }
 
         const canvasEl = gl.domElement
@@ -229,5 +248,5 @@ export function useDecalDrag(params: {
         return () => {
             canvasEl.removeEventListener('pointerdown', onPointerDown)
         }
-    }, [decals, modelRef, assetSelection, camera, gl, raycaster, setDecals, setSelectedId, decalsGroupRef])
+    }, [modelRef, camera, gl, raycaster, decalsGroupRef])
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+// src/hooks/useDecalImport.ts
+import { type RefObject } from 'react'
+import * as THREE from 'three'
+import type { DecalState } from '../components/ModelWithDecals'
+import { selectSavedUnits, useDesignStore } from '../store/designStore'
+import { recoverLogoFile, type ImportedDecal } from '../utils/glbImport'
+import { buildManifest, fetchModelBlob, getObjectPath } from '../utils/projectFile'
+import { resolveTextPath, resolveTextStyle } from '../utils/textDecal'
+
+/**
+ * Returns the handler for decals useModelReset found in a re-imported GLB.
+ * Their logos and texts are added to the asset lists, then they are rebuilt
+ * through store.pendingProject exactly like the decals of an opened project.
+ */
+export function useDecalImport(params: {
+    glbUrl: string | null
+    modelName: string
+    modelRef: RefObject<THREE.Group | null>
+}) {
+    const { glbUrl, modelName, modelRef } = params
+
+    return async (imported: ImportedDecal[]) => {
+        // an opened project or session rebuilds its own copy of these decals
+        if (!glbUrl || !modelRef.current || useDesignStore.getState().pendingProject) return
+        const root = modelRef.current
+
+        try {
+            const { logos, logoCleanups, texts, fonts } = useDesignStore.getState()
+            const nextLogos = [...logos]
+            const nextTexts = [...texts]
+            const states: DecalState[] = []
+
+            for (const { extras, hitObject, image } of imported) {
+                const meta = { ...extras.meta }
+                if (meta.type === 'logo') {
+                    // reuse a logo that is already loaded under the same name
+                    meta.index = nextLogos.findIndex(f => f.name === extras.assetName)
+                    if (meta.index < 0) {
+                        if (!image) {
+                            console.warn(`Skipping imported decal ${extras.id}: its logo image is missing`)
+                            continue
+                        }
+                        nextLogos.push(await recoverLogoFile(image, extras.assetName ?? `logo-${nextLogos.length + 1}`))
+                        meta.index = nextLogos.length - 1
+                    }
+                } else {
+                    const text = extras.text ?? ''
+                    meta.index = nextTexts.indexOf(text)
+                    if (meta.index < 0) meta.index = nextTexts.push(text) - 1
+                }
+                states.push({
+                    id: extras.id,
+                    meta,
+                    text: extras.text,
+                    font: extras.font,
+                    color: extras.color,
+                    fontSize: extras.fontSize,
+                    textStyle: extras.textStyle && resolveTextStyle(extras.textStyle),
+                    textPath: extras.textPath && resolveTextPath(extras.textPath),
+                    sizeForDecal: extras.sizeForDecal,
+                    heightForDecal: extras.heightForDecal,
+                    flipX: extras.flipX,
+                    flipY: extras.flipY,
+                    finish: extras.finish,
+                    opacity: extras.opacity,
+                    blendMode: extras.blendMode,
+                    mirror: extras.mirror && { ...extras.mirror },
+                    rotationDeg: extras.rotationDeg,
+                    hitObject,
+                    localPosition: new THREE.Vector3().fromArray(extras.localPosition),
+                    localNormal: new THREE.Vector3().fromArray(extras.localNormal),
+                    baseLocalRotation: extras.baseLocalRotation ? new THREE.Quaternion().fromArray(extras.baseLocalRotation) : undefined,
+                })
+            }
+
+            const model = await fetchModelBlob(glbUrl)
+            // the model may have been replaced while logos were being recovered
+            const live = states.filter(s => getObjectPath(root, s.hitObject))
+            if (!live.length) return
+
+            const manifest = buildManifest({
+                modelName,
+                logos: nextLogos,
+                logoCleanups,
+                texts: nextTexts,
+                fonts,
+                modelRoot: root,
+                decals: live,
+                units: selectSavedUnits(useDesignStore.getState()),
+            })
+            const { setLogos, setTexts, setPendingProject } = useDesignStore.getState()
+            setLogos(() => nextLogos)
+            setTexts(() => nextTexts)
+            setPendingProject({ manifest, model, logos: nextLogos, fonts })
+        } catch (err) {
+            console.error('Failed to import decals from the GLB', err)
+            window.alert('The model was loaded, but its decals could not be restored for editing.')
+        }
+    }
+}
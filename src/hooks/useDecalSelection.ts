@@ -0,0 +1,200 @@
+// src/hooks/useDecalSelection.ts
+import * as THREE from 'three'
+import type { DecalRec, DecalState } from '../components/ModelWithDecals'
+import { captureDecalState, containerScale, decalModelPosition, dropOnSurface, pushDecalHistory, waitForImage, wrapDegrees } from '../utils/decalUtils'
+import { copyDecal, type CopiedDecal } from '../utils/decalClipboard'
+import { loadCustomFont, type CustomFont } from '../utils/fontUtils'
+import type { LogoCleanup } from '../utils/logoCleanup'
+import { useDesignStore, type SelectionCommand } from '../store/designStore'
+import { useHistoryStore } from '../store/historyStore'
+
+// how far a copy pasted onto its original's model lands from it, as a fraction of its width and height
+const PASTE_OFFSET = 0.2
+// frames to wait for the images of newly added logos to be created
+const LOGO_WAIT_FRAMES = 60
+
+// Returns the scene-side implementation of store.selectionCommand, copyDecals and pasteDecals
+export function useDecalSelection(params: {
+    modelRef: React.MutableRefObject<THREE.Group | null>
+    decalsGroupRef: React.MutableRefObject<THREE.Group | null>
+    logoImgsRef: React.MutableRefObject<(HTMLImageElement | null)[]>
+    buildDecal: (state: DecalState) => DecalRec
+}) {
+    const { modelRef, decalsGroupRef, logoImgsRef, buildDecal } = params
+
+    // The model node is cloned on every load, so its uuid tells one loaded model from the next
+    const loadedModelId = () => modelRef.current?.children[0]?.uuid ?? null
+
+    // Selected decals, primary first. Edits reach a twin anyway, so with `skipTwins` a
+    // decal whose twin is already handled is left out rather than edited twice.
+    const selectedTargets = (handled: Set<string>, skipTwins: boolean) => {
+        const { decals, selectedId, selectedIds } = useDesignStore.getState()
+        const ids = selectedId ? [selectedId, ...selectedIds.filter(id => id !== selectedId)] : selectedIds
+        return ids.filter(id => {
+            const rec = decals.find(d => d.id === id)
+            if (!rec || handled.has(id) || (skipTwins && rec.mirror && handled.has(rec.mirror.twinId))) return false
+            handled.add(id)
+            return true
+        })
+    }
+
+    // store.selectionCommand: one decal command per selected decal, recorded as a single undo step
+    const selectionCommand = (cmd: SelectionCommand) => {
+        const handled = new Set(cmd.action === 'move' && cmd.except ? [cmd.except] : [])
+        const targets = selectedTargets(handled, cmd.action !== 'duplicate')
+        if (!targets.length) return
+        const { decalCommand, selectDecals } = useDesignStore.getState()
+        const copies: string[] = []
+        useHistoryStore.getState().transaction(() => {
+            targets.forEach(id => {
+                // every command replaces records, so each decal is looked up on its turn
+                const rec = useDesignStore.getState().decals.find(d => d.id === id)
+                if (!rec) return
+                switch (cmd.action) {
+                    case 'delete':
+                        decalCommand(id, { action: 'delete' })
+                        break
+                    case 'duplicate': {
+                        decalCommand(id, { action: 'duplicate' })
+                        // the duplicate command selects its copy
+                        const copy = useDesignStore.getState().selectedId
+                        if (copy && copy !== id) copies.push(copy)
+                        break
+                    }
+                    case 'scale':
+                        decalCommand(id, { action: 'setSize', size: rec.sizeForDecal * cmd.factor })
+                        break
+                    case 'rotate':
+                        decalCommand(id, { action: 'setRotation', rotationDeg: wrapDegrees((rec.rotationDeg ?? 0) + cmd.deg) })
+                        break
+                    case 'recolor':
+                        if (rec.meta.type === 'text' && rec.color !== cmd.color) decalCommand(id, { action: 'updateColor', color: cmd.color })
+                        break
+                    case 'move': {
+                        const position = decalModelPosition(rec)
+                        if (position) decalCommand(id, { action: 'setPosition', position: position.add(cmd.offset) })
+                        break
+                    }
+                }
+            })
+        })
+        if (copies.length) selectDecals(copies)
+    }
+
+    // store.copyDecals: the selected decals, in layer order so pasted ones stack the same way
+    const copyDecals = () => {
+        const { decals, selectedIds, texts, logos, logoCleanups, fonts, modelSize, modelScale, setDecalClipboard } = useDesignStore.getState()
+        const modelId = loadedModelId()
+        if (!modelSize || !modelId) return
+        const copied = decals
+            .filter(d => selectedIds.includes(d.id))
+            .map(d => copyDecal(d, modelId, { texts, logos, logoCleanups, fonts }, modelSize, modelScale.metersPerUnit))
+            .filter((c): c is CopiedDecal => !!c)
+        if (copied.length) setDecalClipboard(copied)
+    }
+
+    // Asset indices for the copied decals, adding the texts, logos and fonts that are
+    // missing, e.g. because they were copied from another model
+    const restoreAssets = async (clipboard: CopiedDecal[]) => {
+        const { texts: textsBefore, logos: logosBefore, logoCleanups, fonts, setTexts, setLogos, setLogoCleanups, setFonts } = useDesignStore.getState()
+        const texts = [...textsBefore]
+        const logos = [...logosBefore]
+        const cleanups: (LogoCleanup | null)[] = Array.from({ length: logos.length }, (_, i) => logoCleanups[i] ?? null)
+        const newFonts: CustomFont[] = []
+        const indices = clipboard.map(c => {
+            if (c.logo) {
+                let index = logos.indexOf(c.logo.file)
+                if (index === -1) {
+                    index = logos.push(c.logo.file) - 1
+                    cleanups.push(c.logo.cleanup)
+                }
+                return index
+            }
+            const font = c.font
+            if (font && ![...fonts, ...newFonts].some(f => f.family === font.family)) newFonts.push(font)
+            if (c.text === undefined) return c.state.meta.index
+            const index = texts.indexOf(c.text)
+            return index === -1 ? texts.push(c.text) - 1 : index
+        })
+        if (texts.length !== textsBefore.length) setTexts(() => texts)
+        if (logos.length !== logosBefore.length) {
+            setLogos(() => logos)
+            setLogoCleanups(() => cleanups)
+        }
+        if (newFonts.length) setFonts(prev => [...prev, ...newFonts])
+
+        // text drawn before its font is in would use a fallback font
+        await Promise.all(newFonts.map(f => loadCustomFont(f).catch(err => {
+            console.warn(`Could not load font ${f.family}`, err)
+        })))
+        // logo images are created in an effect once the new logos are rendered, and drawn once loaded
+        const logoIndices = indices.filter((_, i) => clipboard[i].logo)
+        for (let frame = 0; frame < LOGO_WAIT_FRAMES && logoIndices.some(i => !logoImgsRef.current[i]); frame++) {
+            await new Promise(resolve => requestAnimationFrame(resolve))
+        }
+        await Promise.all(logoIndices.map(i => waitForImage(logoImgsRef.current[i] ?? null)))
+        return indices
+    }
+
+    // store.pasteDecals: the clipboard onto the current model, as new decals that become the selection
+    const pasteDecals = async () => {
+        const clipboard = useDesignStore.getState().decalClipboard
+        if (!clipboard.length || !modelRef.current) return
+        const indices = await restoreAssets(clipboard)
+
+        const model = modelRef.current
+        const container = decalsGroupRef.current?.parent
+        const { modelSize, modelScale } = useDesignStore.getState()
+        if (!model || !container || !modelSize) return
+        container.updateMatrixWorld(true)
+        const scale = containerScale(container)
+        const modelId = loadedModelId()
+
+        const ids = new Map(clipboard.map(c => [c.state.id, THREE.MathUtils.generateUUID()]))
+        const states: DecalState[] = []
+        clipboard.forEach((c, i) => {
+            const right = c.right.clone().transformDirection(container.matrixWorld)
+            const up = c.up.clone().transformDirection(container.matrixWorld)
+            const normal = c.normal.clone().transformDirection(container.matrixWorld)
+            // on the model it was copied from: next to the original; elsewhere: the same spot relative to the model's size
+            const sameModel = c.modelId === modelId
+            const point = sameModel
+                ? container.localToWorld(c.position.clone())
+                    .addScaledVector(right, c.size.width * scale * PASTE_OFFSET)
+                    .addScaledVector(up, -c.size.height * scale * PASTE_OFFSET)
+                : container.localToWorld(c.fraction.clone().multiply(modelSize))
+            // the copied axes include the in-plane rotation; the anchor wants the orientation at 0 degrees
+            const orientation = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(right, up, normal))
+                .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), -THREE.MathUtils.degToRad(c.state.rotationDeg ?? 0)))
+            const anchor = dropOnSurface(model, point, normal, orientation)
+            if (!anchor) return
+            // same printed size on a model with another scale
+            const rescale = sameModel ? 1 : c.metersPerUnit / modelScale.metersPerUnit
+            states.push({
+                ...c.state,
+                id: ids.get(c.state.id)!,
+                meta: { ...c.state.meta, index: indices[i] },
+                sizeForDecal: c.state.sizeForDecal * rescale,
+                heightForDecal: c.state.heightForDecal !== undefined ? c.state.heightForDecal * rescale : undefined,
+                mirror: c.state.mirror && { ...c.state.mirror, twinId: ids.get(c.state.mirror.twinId) ?? '' },
+                hitObject: anchor.hitObject,
+                localPosition: anchor.localPosition,
+                localNormal: anchor.localNormal,
+                baseLocalRotation: anchor.baseLocalRotation,
+            })
+        })
+        // twins stay linked only when both sides were pasted
+        const pastedIds = new Set(states.map(s => s.id))
+        const pasted = states.map(s => buildDecal(s.mirror && !pastedIds.has(s.mirror.twinId) ? { ...s, mirror: undefined } : s))
+        if (!pasted.length) return
+
+        const { setDecals, selectDecals } = useDesignStore.getState()
+        setDecals(prev => [...prev, ...pasted])
+        selectDecals(pasted.map(d => d.id))
+        useHistoryStore.getState().transaction(() => {
+            pasted.forEach(rec => pushDecalHistory('Paste decal', null, captureDecalState(rec)))
+        })
+    }
+
+    return { selectionCommand, copyDecals, pasteDecals }
+}
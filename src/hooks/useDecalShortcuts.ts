@@ -0,0 +1,26 @@
+// src/hooks/useDecalShortcuts.ts
+import { useEffect } from 'react'
+import { useDesignStore } from '../store/designStore'
+
+// Ctrl+C / Ctrl+V copy and paste the selected decals, Ctrl+D duplicates them
+export function useDecalShortcuts() {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return
+            // form fields and selected page text keep the native clipboard
+            const target = e.target as HTMLElement | null
+            if (target?.isContentEditable || (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+            if (window.getSelection()?.toString()) return
+
+            const key = e.key.toLowerCase()
+            const { selectedIds, decalClipboard, copyDecals, pasteDecals, selectionCommand } = useDesignStore.getState()
+            if (key === 'c' && selectedIds.length) copyDecals()
+            else if (key === 'v' && decalClipboard.length) pasteDecals()
+            else if (key === 'd' && selectedIds.length) selectionCommand({ action: 'duplicate' })
+            else return
+            e.preventDefault()
+        }
+        window.addEventListener('keydown', onKeyDown)
+        return () => window.removeEventListener('keydown', onKeyDown)
+    }, [])
+}
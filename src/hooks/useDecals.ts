@@ -1,198 +1,423 @@
 // src/hooks/useDecals.ts
-import { useEffect } from 'react'
 import * as THREE from 'three'
-import type { AssetRef, DecalRec } from '../components/ModelWithDecals'
+import type { AssetCanvasOptions, AssetRef, DecalRec, DecalState } from '../components/ModelWithDecals'
 import { DecalGeometry } from 'three/examples/jsm/geometries/DecalGeometry.js'
+import { captureDecalState, decalSize, decalWorldFrame, dropOnSurface, pushDecalHistory, swapDecalCanvas, type DecalSize } from '../utils/decalUtils'
+import { mirrorDecalFrame } from '../utils/decalMirror'
+import { whenFontReady } from '../utils/fontUtils'
+import { applyDecalBlending, disposeDecalMaterial, type DecalAppearance } from '../utils/decalFinish'
+import { resolveTextPath, resolveTextStyle } from '../utils/textDecal'
+import { useDesignStore, type DecalCommand } from '../store/designStore'
+import { useHistoryStore } from '../store/historyStore'
 
+// Everything makeCanvasForAsset needs to redraw a decal as it is
+const canvasOptions = (rec: DecalRec): AssetCanvasOptions => ({
+    resolution: Math.max(rec.canvas.width, rec.canvas.height),
+    text: rec.text,
+    font: rec.font,
+    color: rec.color,
+    fontSize: rec.fontSize,
+    style: rec.textStyle,
+    path: rec.textPath,
+    flipX: rec.flipX,
+    flipY: rec.flipY,
+})
 
+// Undo-history labels for the commands that change a decal
+const HISTORY_LABELS: Record<Exclude<DecalCommand['action'], 'restore'>, string> = {
+    delete: 'Delete decal',
+    updateText: 'Edit text',
+    updateFont: 'Change font',
+    updateColor: 'Change color',
+    setSize: 'Resize decal',
+    setDimensions: 'Resize decal',
+    setAspectLock: 'Change aspect lock',
+    setFlip: 'Flip decal',
+    setFinish: 'Change finish',
+    setOpacity: 'Change opacity',
+    setBlendMode: 'Change blend mode',
+    moveLayer: 'Reorder layers',
+    setFontSize: 'Change font size',
+    setTextStyle: 'Change text style',
+    setTextPath: 'Change text path',
+    setRotation: 'Rotate decal',
+    setPosition: 'Move decal',
+    duplicate: 'Duplicate decal',
+    mirror: 'Mirror decal',
+    unlink: 'Unlink twin',
+}
+
+// Commands that only concern the decal they are sent to, even when it has a twin
+const UNMIRRORED_ACTIONS: ReadonlySet<DecalCommand['action']> = new Set(['restore', 'moveLayer', 'duplicate', 'mirror'])
+
+// custom font families with a redraw queued for when they finish loading
+const pendingFontRedraws = new Set<string>()
+
+// how far a duplicate lands from its original, as a fraction of the original's width and height
+const DUPLICATE_OFFSET = 0.2
+
+
+// Returns the scene-side implementation of store.decalCommand (delete/update/restore)
 export function useDecals(params: {
-    decals: DecalRec[]
+    modelRef: React.MutableRefObject<THREE.Group | null>
     decalsGroupRef: React.MutableRefObject<THREE.Group | null>
-    setDecals: (fn: (prev: DecalRec[]) => DecalRec[]) => void
-    setSelectedId: (id: string | null) => void
-    makeCanvasForAsset: (asset: AssetRef, opts?: { text?: string; font?: string; color?: string; fontSize?: number }) => HTMLCanvasElement
+    makeCanvasForAsset: (asset: AssetRef, opts?: AssetCanvasOptions) => HTMLCanvasElement
     createDecalMesh: (
         hitObject: THREE.Object3D,
         point: THREE.Vector3,
         normal: THREE.Vector3,
         canvas: HTMLCanvasElement,
-        width: number,
+        size: DecalSize,
         rotationDeg: number,
         camera?: THREE.Camera,
-        baseLocalRotation?: THREE.Quaternion
+        baseLocalRotation?: THREE.Quaternion,
+        appearance?: DecalAppearance
     ) => {
-        mesh: THREE.Mesh<DecalGeometry, THREE.MeshBasicMaterial, THREE.Object3DEventMap>;
-        mat: THREE.MeshBasicMaterial;
+        mesh: THREE.Mesh<DecalGeometry, THREE.MeshBasicMaterial | THREE.MeshPhysicalMaterial, THREE.Object3DEventMap>;
+        mat: THREE.MeshBasicMaterial | THREE.MeshPhysicalMaterial;
         tex: THREE.CanvasTexture;
         euler: THREE.Euler;
     }
+    buildDecal: (state: DecalState) => DecalRec
 }) {
-    const { decals, decalsGroupRef, setDecals, setSelectedId, makeCanvasForAsset, createDecalMesh } = params
-
-    useEffect(() => {
-        const handler = (ev: any) => {
-            const { id, action, data } = ev.detail || {}
-            if (!id || !action) return
-            const recIdx = decals.findIndex(d => d.id === id)
-            if (recIdx === -1) return
-            const rec = decals[recIdx]
-
-            switch (action) {
-                case 'delete': {
-                    rec.mesh.geometry.dispose()
-                        ; (rec.mesh.material as any).map?.dispose?.()
-                        ; (rec.mesh.material as any).dispose?.()
-                    decalsGroupRef.current?.remove(rec.mesh)
-                    setDecals(prev => prev.filter(p => p.id !== id))
-                    setSelectedId(null)
-                    window.dispatchEvent(new CustomEvent('decalRemoved', { detail: { id } }))
-                    break
-                }
-                case 'updateText': {
-                    if (rec.meta.type !== 'text') break
-                    rec.text = data.text
-                    const canvas = makeCanvasForAsset(rec.meta, { text: rec.text, font: rec.font, color: rec.color })
-                    const newTex = new THREE.CanvasTexture(canvas)
-                        ; (newTex as any).encoding = (THREE as any).sRGBEncoding
-                        ; (newTex as any).needsUpdate = true
-                        ; (rec.mesh.material as any).map = newTex
-                    rec.canvas = canvas
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id, text: rec.text } }))
-                    break
-                }
-                case 'updateFont': {
-                    if (rec.meta.type !== 'text') break
-                    rec.font = data.font
-                    const c2 = makeCanvasForAsset(rec.meta, {
-                        text: rec.text,
-                        font: rec.font,
-                        fontSize: rec.fontSize,   // important: pass current size
-                        color: rec.color
-                    })
-                        ; (rec.mesh.material as any).map = new THREE.CanvasTexture(c2)
-                        ; ((rec.mesh.material as any).map as any).needsUpdate = true
-                    rec.canvas = c2
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id, font: rec.font } }))
-                    break
-                }
-                case 'updateColor': {
-                    rec.color = data.color
-                    const c3 = makeCanvasForAsset(rec.meta, { text: rec.text, font: rec.font, color: rec.color })
-                        ; (rec.mesh.material as any).map = new THREE.CanvasTexture(c3)
-                        ; ((rec.mesh.material as any).map as any).needsUpdate = true
-                    rec.canvas = c3
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id, color: rec.color } }))
-                    break
-                }
-                case 'setSize': { // used for logos (size in world units)
-                    const newSize = Number(data?.size ?? rec.sizeForDecal ?? 0.5)
-                    // recreate decal geometry at saved hit point
-                    const hitObj = rec.hitObject ?? rec.mesh // fallback
-                    let pos = rec.position ?? rec.mesh.getWorldPosition(new THREE.Vector3())
-                    let normal = rec.normal ?? new THREE.Vector3(0, 0, 1)
-
-                    if (rec.localPosition && rec.hitObject) {
-                        pos = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
-                    }
-                    if (rec.localNormal && rec.hitObject) {
-                        normal = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
-                    }
-
-                    // keep same canvas texture (we may need to recreate canvas for text separately)
-                    // remove old mesh safely
-                    rec.mesh.geometry.dispose()
-                        ; (rec.mesh.material as any).map?.dispose?.()
-                        ; (rec.mesh.material as any).dispose?.()
-                    decalsGroupRef.current?.remove(rec.mesh)
-
-                    // create new decal geometry with same canvas and rotation
-                    const { mesh: newMesh } = createDecalMesh(hitObj as any, pos.clone(), normal.clone(), rec.canvas, newSize, rec.rotationDeg ?? 0, undefined, rec.baseLocalRotation)
-                    decalsGroupRef.current!.add(newMesh)
-
-                    // update record
-                    rec.mesh = newMesh
-                    rec.sizeForDecal = newSize
-                    setDecals(prev => prev.map(p => p.id === rec.id ? rec : p))
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id: rec.id, size: newSize } }))
-                    break
-                }
+    const { modelRef, decalsGroupRef, makeCanvasForAsset, createDecalMesh, buildDecal } = params
 
-                case 'setFontSize': { // used for text - newFontPx passed in data.fontSize
-                    if (rec.meta.type !== 'text') break
-                    const fontPx = Number(data?.fontSize ?? rec.fontSize ?? 48)
-                    // recreate the canvas with new font size
-                    const newCanvas = makeCanvasForAsset(rec.meta, {
-                        text: rec.text ?? '',
-                        font: rec.font,       // just the family
-                        fontSize: fontPx,     // pass the size separately
-                        color: rec.color
-                    })
-                    // remove old mesh
-                    rec.mesh.geometry.dispose()
-                        ; (rec.mesh.material as any).map?.dispose?.()
-                        ; (rec.mesh.material as any).dispose?.()
-                    decalsGroupRef.current?.remove(rec.mesh)
-
-                    const hitObj2 = rec.hitObject ?? rec.mesh
-                    let pos2 = rec.position ?? rec.mesh.getWorldPosition(new THREE.Vector3())
-                    let normal2 = rec.normal ?? new THREE.Vector3(0, 0, 1)
-
-                    if (rec.localPosition && rec.hitObject) {
-                        pos2 = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
-                    }
-                    if (rec.localNormal && rec.hitObject) {
-                        normal2 = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
-                    }
-
-                    // create new mesh using same world sizeForDecal and rotation
-                    const { mesh: newMesh2 } = createDecalMesh(hitObj2 as any, pos2.clone(), normal2.clone(), newCanvas, rec.sizeForDecal ?? 0.5, rec.rotationDeg ?? 0, undefined, rec.baseLocalRotation)
-                    decalsGroupRef.current!.add(newMesh2)
-
-                    rec.mesh = newMesh2
-                    rec.canvas = newCanvas
-                    rec.fontSize = fontPx
-                    setDecals(prev => prev.map(p => p.id === rec.id ? rec : p))
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id: rec.id, fontSize: fontPx } }))
-                    break
-                }
+    // Replace a decal's mesh at its current anchor, e.g. after its size or aspect ratio changed
+    const rebuildMesh = (rec: DecalRec, canvas = rec.canvas) => {
+        const hitObj = rec.hitObject ?? rec.mesh
+        let pos = rec.position ?? rec.mesh.getWorldPosition(new THREE.Vector3())
+        let normal = rec.normal ?? new THREE.Vector3(0, 0, 1)
+        if (rec.localPosition && rec.hitObject) {
+            pos = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
+        }
+        if (rec.localNormal && rec.hitObject) {
+            normal = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
+        }
 
-                case 'setRotation': {
-                    const rotationDeg = Number(data?.rotationDeg ?? 0)
-                    // recreate geometry rotated in-plane around the normal
-                    const hitObjR = rec.hitObject ?? rec.mesh
-                    let posR = rec.position ?? rec.mesh.getWorldPosition(new THREE.Vector3())
-                    let normalR = rec.normal ?? new THREE.Vector3(0, 0, 1)
-
-                    if (rec.localPosition && rec.hitObject) {
-                        posR = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
-                    }
-                    if (rec.localNormal && rec.hitObject) {
-                        normalR = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
-                    }
-
-                    // remove old
-                    rec.mesh.geometry.dispose()
-                        ; (rec.mesh.material as any).map?.dispose?.()
-                        ; (rec.mesh.material as any).dispose?.()
-                    decalsGroupRef.current?.remove(rec.mesh)
-
-                    // create new geometry with rotationDeg applied
-                    const { mesh: newMeshR } = createDecalMesh(hitObjR as any, posR.clone(), normalR.clone(), rec.canvas, rec.sizeForDecal ?? 0.5, rotationDeg, undefined, rec.baseLocalRotation)
-                    decalsGroupRef.current!.add(newMeshR)
-
-                    rec.mesh = newMeshR
-                    rec.rotationDeg = rotationDeg
-                    setDecals(prev => prev.map(p => p.id === rec.id ? rec : p))
-                    window.dispatchEvent(new CustomEvent('decalUpdated', { detail: { id: rec.id, rotationDeg } }))
-                    break
+        rec.mesh.geometry.dispose()
+        disposeDecalMaterial(rec.mesh.material)
+        decalsGroupRef.current?.remove(rec.mesh)
+
+        rec.canvas = canvas
+        const { mesh } = createDecalMesh(hitObj, pos.clone(), normal.clone(), canvas, decalSize(rec), rec.rotationDeg ?? 0, undefined, rec.baseLocalRotation, rec)
+        decalsGroupRef.current!.add(mesh)
+        rec.mesh = mesh
+    }
+
+    // Where a decal lands when moved to a model-space position, along its current normal and keeping its orientation
+    const surfaceAnchor = (rec: DecalRec, position: THREE.Vector3) => {
+        const container = decalsGroupRef.current?.parent
+        if (!container || !rec.hitObject || !rec.localNormal) return null
+        container.updateMatrixWorld(true)
+        const normal = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
+        const orientation = rec.baseLocalRotation && rec.hitObject.getWorldQuaternion(new THREE.Quaternion()).multiply(rec.baseLocalRotation)
+        return modelRef.current && dropOnSurface(modelRef.current, container.localToWorld(position.clone()), normal, orientation)
+    }
+
+    // Applies a command to one decal, without carrying it over to a twin
+    const applyCommand = (id: string, cmd: DecalCommand) => {
+        const { decals, setDecals, selectDecal, deselectDecal } = useDesignStore.getState()
+
+        // restore: (re)build a decal from a captured state, e.g. when undoing a delete
+        if (cmd.action === 'restore') {
+            const existing = decals.find(d => d.id === id)
+            if (existing) {
+                existing.mesh.geometry.dispose()
+                disposeDecalMaterial(existing.mesh.material)
+                decalsGroupRef.current?.remove(existing.mesh)
+            }
+            const restored = buildDecal(cmd.state)
+            setDecals(prev => prev.some(p => p.id === id) ? prev.map(p => p.id === id ? restored : p) : [...prev, restored])
+            selectDecal(id)
+            return
+        }
+
+        const recIdx = decals.findIndex(d => d.id === id)
+        if (recIdx === -1) return
+
+        // the layer order is the order of the decals list, not part of a decal's state
+        if (cmd.action === 'moveLayer') {
+            const to = THREE.MathUtils.clamp(Math.round(cmd.to), 0, decals.length - 1)
+            if (to === recIdx) return
+            setDecals(prev => {
+                const moved = prev.find(p => p.id === id)
+                if (!moved) return prev
+                const next = prev.filter(p => p !== moved)
+                next.splice(to, 0, moved)
+                return next
+            })
+            useHistoryStore.getState().push({
+                label: HISTORY_LABELS.moveLayer,
+                undo: () => decalCommand(id, { action: 'moveLayer', to: recIdx }),
+                redo: () => decalCommand(id, { action: 'moveLayer', to }),
+            })
+            return
+        }
+
+        // a new decal rather than a change to this one
+        if (cmd.action === 'duplicate') {
+            const source = decals[recIdx]
+            const state = captureDecalState(source)
+            const frame = decalWorldFrame(source)
+            const container = decalsGroupRef.current?.parent
+            if (!state || !frame || !container) return
+            // down and to the right along the artwork, so the copy doesn't hide exactly behind the original
+            const offset = frame.right.multiplyScalar(frame.width * DUPLICATE_OFFSET).addScaledVector(frame.up, -frame.height * DUPLICATE_OFFSET)
+            const anchor = surfaceAnchor(source, container.worldToLocal(frame.center.add(offset)))
+            const copy = buildDecal({
+                ...state,
+                id: THREE.MathUtils.generateUUID(),
+                // the copy is on its own; its original keeps the twin
+                mirror: undefined,
+                ...(anchor && {
+                    hitObject: anchor.hitObject,
+                    localPosition: anchor.localPosition,
+                    localNormal: anchor.localNormal,
+                    baseLocalRotation: anchor.baseLocalRotation,
+                }),
+            })
+            setDecals(prev => {
+                const next = [...prev]
+                next.splice(prev.findIndex(p => p.id === id) + 1, 0, copy)
+                return next
+            })
+            selectDecal(copy.id)
+            pushDecalHistory(HISTORY_LABELS.duplicate, null, captureDecalState(copy))
+            return
+        }
+
+        // (re)build the twin from this decal: mirrored across the plane, with the same content and appearance
+        if (cmd.action === 'mirror') {
+            const source = decals[recIdx]
+            const state = captureDecalState(source)
+            const frame = decalWorldFrame(source)
+            const container = decalsGroupRef.current?.parent
+            if (!state || !frame || !container) return
+            container.updateMatrixWorld(true)
+            const mirrored = mirrorDecalFrame(frame, source.rotationDeg ?? 0, container, cmd.axis)
+            // nothing across the plane to put the twin on
+            const anchor = modelRef.current && dropOnSurface(modelRef.current, mirrored.point, mirrored.normal, mirrored.orientation)
+            if (!anchor) return
+
+            const existing = source.mirror && decals.find(d => d.id === source.mirror!.twinId)
+            const twinId = existing?.id ?? THREE.MathUtils.generateUUID()
+            const twinBefore = existing ? captureDecalState(existing) : null
+            if (existing) {
+                existing.mesh.geometry.dispose()
+                disposeDecalMaterial(existing.mesh.material)
+                decalsGroupRef.current?.remove(existing.mesh)
+            }
+            const twin = buildDecal({
+                ...state,
+                id: twinId,
+                rotationDeg: -(state.rotationDeg ?? 0) || 0,
+                mirror: { twinId: id, axis: cmd.axis },
+                hitObject: anchor.hitObject,
+                localPosition: anchor.localPosition,
+                localNormal: anchor.localNormal,
+                baseLocalRotation: anchor.baseLocalRotation,
+            })
+            const linked = { ...source, mirror: { twinId, axis: cmd.axis } }
+            setDecals(prev => {
+                const next = prev.filter(p => p.id !== twinId).map(p => p.id === id ? linked : p)
+                // a refreshed twin keeps its layer; a new one goes just above its original
+                next.splice(existing ? prev.findIndex(p => p.id === twinId) : next.indexOf(linked) + 1, 0, twin)
+                return next
+            })
+            useHistoryStore.getState().transaction(() => {
+                if (!existing || source.mirror!.axis !== cmd.axis) pushDecalHistory(HISTORY_LABELS.mirror, state, captureDecalState(linked))
+                pushDecalHistory(HISTORY_LABELS.mirror, twinBefore, captureDecalState(twin), `decal:${twinId}:mirror`)
+            })
+            return
+        }
+
+        // work on a copy so subscribers see a new record once it's committed below
+        const rec = { ...decals[recIdx] }
+        const before = captureDecalState(rec)
+
+        switch (cmd.action) {
+            case 'delete': {
+                rec.mesh.geometry.dispose()
+                disposeDecalMaterial(rec.mesh.material)
+                decalsGroupRef.current?.remove(rec.mesh)
+                setDecals(prev => prev.filter(p => p.id !== id))
+                deselectDecal(id)
+                pushDecalHistory(HISTORY_LABELS.delete, before, null)
+                return
+            }
+            // text canvases are fitted to the text, so redrawing one can change the decal's aspect ratio
+            case 'updateText': {
+                if (rec.meta.type !== 'text') break
+                rec.text = cmd.text
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+            case 'updateFont': {
+                if (rec.meta.type !== 'text') break
+                rec.font = cmd.font
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+            case 'updateColor': {
+                rec.color = cmd.color
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+            case 'setTextStyle': {
+                if (rec.meta.type !== 'text') break
+                rec.textStyle = resolveTextStyle({ ...rec.textStyle, ...cmd.style })
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+            case 'setTextPath': {
+                if (rec.meta.type !== 'text') break
+                rec.textPath = resolveTextPath({ ...rec.textPath, ...cmd.path })
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+            case 'setSize': { // size in model space; an unlocked height scales along
+                const newSize = Number(cmd.size ?? rec.sizeForDecal ?? 0.5)
+                if (rec.heightForDecal !== undefined && rec.sizeForDecal > 0) {
+                    rec.heightForDecal *= newSize / rec.sizeForDecal
                 }
+                rec.sizeForDecal = newSize
+                rebuildMesh(rec)
+                break
+            }
+
+            case 'setDimensions': { // width and/or height in model space, independent of each other
+                if (cmd.width !== undefined) rec.sizeForDecal = cmd.width
+                if (cmd.height !== undefined) rec.heightForDecal = cmd.height
+                rebuildMesh(rec)
+                break
+            }
+
+            case 'setAspectLock': {
+                // unlocking keeps the current height; locking snaps it back to the artwork's aspect ratio
+                rec.heightForDecal = cmd.locked ? undefined : decalSize(rec).height
+                rebuildMesh(rec)
+                break
+            }
 
+            case 'setFlip': {
+                rec.flipX = cmd.flipX ?? rec.flipX
+                rec.flipY = cmd.flipY ?? rec.flipY
+                swapDecalCanvas(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
+
+            case 'setFinish': {
+                rec.finish = cmd.finish === 'flat' ? undefined : cmd.finish
+                rebuildMesh(rec)
+                break
+            }
+
+            case 'setOpacity': {
+                const opacity = THREE.MathUtils.clamp(cmd.opacity, 0, 1)
+                rec.opacity = opacity < 1 ? opacity : undefined
+                applyDecalBlending(rec.mesh.material as THREE.Material, rec)
+                break
+            }
+
+            case 'setBlendMode': {
+                rec.blendMode = cmd.blendMode === 'normal' ? undefined : cmd.blendMode
+                applyDecalBlending(rec.mesh.material as THREE.Material, rec)
+                break
+            }
+
+            case 'setFontSize': { // used for text - newFontPx passed in cmd.fontSize
+                if (rec.meta.type !== 'text') break
+                const fontPx = Number(cmd.fontSize ?? rec.fontSize ?? 48)
+                // the canvas is fitted to the text, so the decal grows with the font size
+                const scale = rec.fontSize ? fontPx / rec.fontSize : 1
+                rec.sizeForDecal *= scale
+                if (rec.heightForDecal !== undefined) rec.heightForDecal *= scale
+                rec.fontSize = fontPx
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                break
+            }
 
-                default:
-                    break
+            case 'setRotation': {
+                // recreate geometry rotated in-plane around the normal
+                rec.rotationDeg = Number(cmd.rotationDeg ?? 0)
+                rebuildMesh(rec)
+                break
             }
+
+            case 'setPosition': {
+                const anchor = surfaceAnchor(rec, cmd.position)
+                if (!anchor) return
+
+                rec.mesh.geometry.dispose()
+                disposeDecalMaterial(rec.mesh.material)
+                decalsGroupRef.current?.remove(rec.mesh)
+
+                const { mesh: newMeshP } = createDecalMesh(anchor.hitObject, anchor.point.clone(), anchor.normal.clone(), rec.canvas, decalSize(rec), rec.rotationDeg ?? 0, undefined, anchor.baseLocalRotation, rec)
+                decalsGroupRef.current!.add(newMeshP)
+
+                rec.mesh = newMeshP
+                rec.hitObject = anchor.hitObject
+                rec.position = anchor.point
+                rec.normal = anchor.normal
+                rec.localPosition = anchor.localPosition
+                rec.localNormal = anchor.localNormal
+                rec.baseLocalRotation = anchor.baseLocalRotation
+                break
+            }
+
+            case 'unlink': {
+                if (!rec.mirror) return
+                rec.mirror = undefined
+                break
+            }
+
+            default:
+                return
         }
-        window.addEventListener('decalCommand', handler)
-        return () => window.removeEventListener('decalCommand', handler)
-    }, [decals])
+
+        setDecals(prev => prev.map(p => p.id === rec.id ? rec : p))
+        pushDecalHistory(HISTORY_LABELS[cmd.action], before, captureDecalState(rec), `decal:${id}:${cmd.action}`)
+    }
+
+    // Redraws the text decals in a custom font once it has loaded. The font is part of their
+    // recorded state already, so this is not an edit and stays out of the undo history.
+    const redrawWhenFontReady = (family?: string) => {
+        const fontLoading = whenFontReady(family)
+        if (!family || !fontLoading || pendingFontRedraws.has(family)) return
+        pendingFontRedraws.add(family)
+        const redraw = () => {
+            pendingFontRedraws.delete(family)
+            const redrawn = new Map<string, DecalRec>()
+            useDesignStore.getState().decals.forEach(d => {
+                if (d.meta.type !== 'text' || d.font !== family) return
+                const rec = { ...d }
+                rebuildMesh(rec, makeCanvasForAsset(rec.meta, canvasOptions(rec)))
+                redrawn.set(rec.id, rec)
+            })
+            if (redrawn.size) useDesignStore.getState().setDecals(prev => prev.map(p => redrawn.get(p.id) ?? p))
+        }
+        fontLoading.then(redraw, redraw)
+    }
+
+    // store.decalCommand: applies the command, then carries it over to the decal's twin if it has one
+    const decalCommand = (id: string, cmd: DecalCommand) => {
+        const { decals } = useDesignStore.getState()
+        const rec = decals.find(d => d.id === id)
+        // a custom font still loading draws with a fallback for now; the decal is redrawn once it's in
+        const text = cmd.action === 'restore' ? cmd.state : rec
+        if (text?.meta.type === 'text') redrawWhenFontReady(cmd.action === 'updateFont' ? cmd.font : text.font)
+        if (!rec || cmd.action === 'restore') return applyCommand(id, cmd)
+
+        const mirror = rec.mirror
+        const twin = mirror && decals.find(d => d.id === mirror.twinId)
+        if (!mirror || !twin || UNMIRRORED_ACTIONS.has(cmd.action)) return applyCommand(id, cmd)
+        // one undo step for both sides
+        useHistoryStore.getState().transaction(() => {
+            applyCommand(id, cmd)
+            if (cmd.action === 'delete' || cmd.action === 'unlink') applyCommand(twin.id, cmd)
+            else applyCommand(id, { action: 'mirror', axis: mirror.axis })
+        })
+    }
+
+    return decalCommand
 }
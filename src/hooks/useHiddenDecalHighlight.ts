@@ -0,0 +1,97 @@
+// src/hooks/useHiddenDecalHighlight.ts
+import { useEffect, useMemo, useRef, type RefObject } from 'react'
+import * as THREE from 'three'
+import { useFrame } from '@react-three/fiber'
+import { useDesignStore } from '../store/designStore'
+import { DECAL_POLYGON_OFFSET, DECAL_RENDER_ORDER } from '../utils/decalFinish'
+import { EDITOR_LAYER } from '../utils/imageExport'
+
+const HIGHLIGHT_COLOR = '#38bdf8'
+const HIGHLIGHT_OPACITY = 0.45
+
+type Overlay = { source: THREE.Mesh; mesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial> }
+
+/**
+ * While store.highlightHiddenDecals is on, draws a tinted copy of each decal
+ * only where the model hides it. The copies live outside the model container,
+ * so model exports never see them, and on EDITOR_LAYER, so image exports skip them.
+ */
+export function useHiddenDecalHighlight(params: {
+    scene: THREE.Scene
+    camera: THREE.Camera
+    containerRef: RefObject<THREE.Group | null>
+}) {
+    const { scene, camera, containerRef } = params
+    const group = useMemo(() => {
+        const g = new THREE.Group()
+        // follows the container by hand (see useFrame), so it isn't part of it
+        g.matrixAutoUpdate = false
+        return g
+    }, [])
+    const overlays = useRef(new Map<string, Overlay>())
+
+    useEffect(() => {
+        scene.add(group)
+        camera.layers.enable(EDITOR_LAYER)
+        const current = overlays.current
+        return () => {
+            scene.remove(group)
+            current.forEach(o => o.mesh.material.dispose())
+            current.clear()
+        }
+    }, [scene, camera, group])
+
+    const remove = (id: string) => {
+        const overlay = overlays.current.get(id)
+        if (!overlay) return
+        group.remove(overlay.mesh)
+        // the geometry and map belong to the decal
+        overlay.mesh.material.dispose()
+        overlays.current.delete(id)
+    }
+
+    useFrame(() => {
+        const { decals, highlightHiddenDecals } = useDesignStore.getState()
+        group.visible = highlightHiddenDecals && !!containerRef.current
+        if (!group.visible) {
+            overlays.current.forEach((_, id) => remove(id))
+            return
+        }
+        group.matrix.copy(containerRef.current!.matrixWorld)
+        group.matrixWorldNeedsUpdate = true
+
+        const live = new Set(decals.map(d => d.id))
+        overlays.current.forEach((o, id) => {
+            const rec = decals.find(d => d.id === id)
+            // dropped decals, and decals whose mesh was rebuilt since
+            if (!live.has(id) || rec?.mesh !== o.source) remove(id)
+        })
+        decals.forEach((rec, i) => {
+            let overlay = overlays.current.get(rec.id)
+            if (!overlay) {
+                const material = new THREE.MeshBasicMaterial({
+                    color: HIGHLIGHT_COLOR,
+                    transparent: true,
+                    opacity: HIGHLIGHT_OPACITY,
+                    depthWrite: false,
+                    // only where something is in front of the decal
+                    depthFunc: THREE.GreaterDepth,
+                    polygonOffset: true,
+                    polygonOffsetFactor: DECAL_POLYGON_OFFSET,
+                    polygonOffsetUnits: DECAL_POLYGON_OFFSET,
+                    toneMapped: false,
+                })
+                const mesh = new THREE.Mesh(rec.mesh.geometry, material)
+                mesh.layers.set(EDITOR_LAYER)
+                mesh.frustumCulled = false
+                group.add(mesh)
+                overlay = { source: rec.mesh, mesh }
+                overlays.current.set(rec.id, overlay)
+            }
+            // the artwork's shape, tinted; follows geometry swaps (drags) and canvas swaps (logo redraws)
+            overlay.mesh.geometry = rec.mesh.geometry
+            overlay.mesh.material.map = (rec.mesh.material as THREE.MeshBasicMaterial).map
+            overlay.mesh.renderOrder = DECAL_RENDER_ORDER + decals.length + i
+        })
+    })
+}
@@ -0,0 +1,26 @@
+// src/hooks/useHistoryShortcuts.ts
+import { useEffect } from 'react'
+import { useHistoryStore } from '../store/historyStore'
+
+// inputs where Ctrl+Z should keep its native text-editing meaning
+const TEXT_INPUT_TYPES = ['text', 'search', 'number', 'email', 'url']
+
+export function useHistoryShortcuts() {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return
+            const target = e.target as HTMLElement | null
+            if (target?.isContentEditable || target?.tagName === 'TEXTAREA') return
+            if (target?.tagName === 'INPUT' && TEXT_INPUT_TYPES.includes((target as HTMLInputElement).type)) return
+
+            const key = e.key.toLowerCase()
+            const { undo, redo } = useHistoryStore.getState()
+            if (key === 'z' && !e.shiftKey) undo()
+            else if ((key === 'z' && e.shiftKey) || key === 'y') redo()
+            else return
+            e.preventDefault()
+        }
+        window.addEventListener('keydown', onKeyDown)
+        return () => window.removeEventListener('keydown', onKeyDown)
+    }, [])
+}
@@ -0,0 +1,85 @@
+// src/hooks/useLogoResolution.ts
+import { useRef, type RefObject } from 'react'
+import * as THREE from 'three'
+import { useFrame } from '@react-three/fiber'
+import type { AssetCanvasOptions, AssetRef, DecalRec } from '../components/ModelWithDecals'
+import { decalScreenPixels, swapDecalCanvas } from '../utils/decalUtils'
+import { isVectorLogo, vectorResolution } from '../utils/logoRaster'
+import { useDesignStore } from '../store/designStore'
+
+// seconds between checks; redrawing is rare, measuring is cheap
+const CHECK_INTERVAL = 0.5
+
+/**
+ * Keeps logo decal canvases at the resolution they need: SVG logos are redrawn
+ * from the vector as they grow or shrink on screen, bitmap logos follow the
+ * store's logoResolution. Returns a function that redraws SVG logos for an
+ * export of the given height and gives back a function undoing it.
+ */
+export function useLogoResolution(params: {
+    gl: THREE.WebGLRenderer
+    camera: THREE.Camera
+    logoImgsRef: RefObject<(HTMLImageElement | null)[]>
+    makeCanvasForAsset: (asset: AssetRef, opts?: AssetCanvasOptions) => HTMLCanvasElement
+}) {
+    const { gl, camera, logoImgsRef, makeCanvasForAsset } = params
+    const elapsed = useRef(0)
+
+    const isReady = (rec: DecalRec) => {
+        const img = logoImgsRef.current?.[rec.meta.index]
+        return !!img && img.complete && !!img.naturalWidth
+    }
+    const isVector = (rec: DecalRec) => isVectorLogo(useDesignStore.getState().logos[rec.meta.index])
+    // longer side, which is what a resolution measures
+    const resolutionOf = (rec: DecalRec) => Math.max(rec.canvas.width, rec.canvas.height)
+    const redraw = (rec: DecalRec, resolution: number) =>
+        makeCanvasForAsset(rec.meta, { resolution, flipX: rec.flipX, flipY: rec.flipY })
+    const vectorTarget = (rec: DecalRec, viewportHeight: number) =>
+        vectorResolution(decalScreenPixels(rec, camera, viewportHeight), gl.capabilities.maxTextureSize)
+
+    useFrame((_, delta) => {
+        elapsed.current += delta
+        if (elapsed.current < CHECK_INTERVAL) return
+        elapsed.current = 0
+
+        const { decals, setDecals, logoResolution } = useDesignStore.getState()
+        const viewportHeight = gl.domElement.clientHeight * gl.getPixelRatio()
+        const redrawn = new Map<string, DecalRec>()
+        for (const rec of decals) {
+            if (rec.meta.type !== 'logo' || !isReady(rec)) continue
+            const current = resolutionOf(rec)
+            let target = logoResolution
+            if (isVector(rec)) {
+                target = vectorTarget(rec, viewportHeight)
+                // grow right away, shrink only when far too big, so zooming doesn't redraw constantly
+                if (target < current && target * 4 > current) continue
+            }
+            if (target === current) continue
+            const next = { ...rec }
+            swapDecalCanvas(next, redraw(rec, target))
+            redrawn.set(rec.id, next)
+        }
+        if (redrawn.size) setDecals(prev => prev.map(p => redrawn.get(p.id) ?? p))
+    })
+
+    // Temporarily shows export-resolution copies of SVG logos; the records keep their canvases
+    const prepareExport = (outputHeight: number) => {
+        const swapped: { material: THREE.MeshBasicMaterial; map: THREE.Texture | null; temp: THREE.Texture }[] = []
+        for (const rec of useDesignStore.getState().decals) {
+            if (rec.meta.type !== 'logo' || !isVector(rec) || !isReady(rec)) continue
+            const target = vectorTarget(rec, outputHeight)
+            if (target <= resolutionOf(rec)) continue
+            const material = rec.mesh.material as THREE.MeshBasicMaterial
+            const temp = new THREE.CanvasTexture(redraw(rec, target))
+            temp.colorSpace = material.map?.colorSpace ?? THREE.SRGBColorSpace
+            swapped.push({ material, map: material.map, temp })
+            material.map = temp
+        }
+        return () => swapped.forEach(({ material, map, temp }) => {
+            material.map = map
+            temp.dispose()
+        })
+    }
+
+    return prepareExport
+}
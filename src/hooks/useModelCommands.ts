@@ -1,35 +1,64 @@
 // src/hooks/useModeCommands.ts
-import { useEffect, type RefObject } from 'react'
+import { type RefObject } from 'react'
 import * as THREE from 'three'
+import { useHistoryStore } from '../store/historyStore'
+import { useDesignStore, type ContainerTransform, type ModelCommand } from '../store/designStore'
 
+const HISTORY_LABELS: Record<Exclude<ModelCommand['action'], 'setTransform'>, string> = {
+    zoom: 'Zoom model',
+    rotate: 'Rotate model',
+    resetTransform: 'Reset model',
+}
+
+export function captureTransform(obj: THREE.Object3D): ContainerTransform {
+    return {
+        position: obj.position.clone(),
+        quaternion: obj.quaternion.clone(),
+        scale: obj.scale.clone(),
+    }
+}
 
+// Returns the scene-side implementation of store.modelCommand, applied to the container (so decals move with model)
 export function useModelCommands(params: {
     containerRef: RefObject<THREE.Group<THREE.Object3DEventMap> | null>
 }) {
     const { containerRef } = params
 
-    useEffect(() => {
-        const handler = (ev: any) => {
-            const { action, delta, axis, deg } = ev.detail || {}
-            if (!containerRef.current) return
-            const container = containerRef.current
+    const modelCommand = (cmd: ModelCommand) => {
+        if (!containerRef.current) return
+        const container = containerRef.current
+        const before = captureTransform(container)
 
-            if (action === 'zoom' && typeof delta === 'number') {
-                const current = container.scale.x
-                const newScale = THREE.MathUtils.clamp(current * delta, 0.2, 5)
-                container.scale.setScalar(newScale)
-            } else if (action === 'rotate' && axis && typeof deg === 'number') {
-                const rad = (deg * Math.PI) / 180
-                if (axis === 'y') container.rotateY(rad)
-                else if (axis === 'x') container.rotateX(rad)
-                else if (axis === 'z') container.rotateZ(rad)
-            } else if (action === 'resetTransform') {
-                container.scale.set(1, 1, 1)
-                container.rotation.set(0, 0, 0)
-                container.position.set(0, 0, 0)
-            }
+        if (cmd.action === 'zoom') {
+            const current = container.scale.x
+            const newScale = THREE.MathUtils.clamp(current * cmd.delta, 0.2, 5)
+            container.scale.setScalar(newScale)
+        } else if (cmd.action === 'rotate') {
+            const rad = (cmd.deg * Math.PI) / 180
+            if (cmd.axis === 'y') container.rotateY(rad)
+            else if (cmd.axis === 'x') container.rotateX(rad)
+            else if (cmd.axis === 'z') container.rotateZ(rad)
+        } else if (cmd.action === 'resetTransform') {
+            container.scale.set(1, 1, 1)
+            container.rotation.set(0, 0, 0)
+            container.position.set(0, 0, 0)
+        } else {
+            // setTransform: used by undo/redo to put back a captured transform
+            container.position.copy(cmd.transform.position)
+            container.quaternion.copy(cmd.transform.quaternion)
+            container.scale.copy(cmd.transform.scale)
+            return
         }
-        window.addEventListener('modelCommand', handler)
-        return () => window.removeEventListener('modelCommand', handler)
-    }, [containerRef])
+
+        const after = captureTransform(container)
+        const { modelCommand: dispatch } = useDesignStore.getState()
+        useHistoryStore.getState().push({
+            label: HISTORY_LABELS[cmd.action],
+            key: `model:${cmd.action}`,
+            undo: () => dispatch({ action: 'setTransform', transform: before }),
+            redo: () => dispatch({ action: 'setTransform', transform: after }),
+        })
+    }
+
+    return modelCommand
 }
@@ -1,14 +1,22 @@
 // src/hooks/useModelReset.ts
-import { useEffect, type RefObject } from 'react'
+import { useEffect, useRef, type RefObject } from 'react'
 import * as THREE from 'three'
-
+import { useDesignStore } from '../store/designStore'
+import { extractDecalNodes, type ImportedDecal } from '../utils/glbImport'
 
 export function useModelReset(params: {
     gltf: any
     camera: THREE.Camera
     modelRef: RefObject<THREE.Group<THREE.Object3DEventMap> | null>
+    // decals found in a GLB exported by this app, already stripped from the model
+    onDecalsImported?: (decals: ImportedDecal[]) => void
 }) {
-    const { gltf, camera, modelRef } = params
+    const { gltf, camera, modelRef, onDecalsImported } = params
+    // latest callback, read when a model loads; the reset itself only follows the model and camera
+    const onDecalsImportedRef = useRef(onDecalsImported)
+    useEffect(() => {
+        onDecalsImportedRef.current = onDecalsImported
+    })
 
     useEffect(() => {
         if (!modelRef.current) return
@@ -17,13 +25,16 @@ export function useModelReset(params: {
         modelRef.current.clear()
 
         if (!gltf?.scene) {
-            // no model: notify listeners
-            window.dispatchEvent(new CustomEvent('modelReady', { detail: { model: null } }))
+            // no model: clear it from the store
+            useDesignStore.getState().setModelRoot(null)
+            useDesignStore.getState().setModelScale({ metersPerUnit: 1, calibrated: false }, null)
             return
         }
 
         // clone incoming scene
         const modelNode = gltf.scene.clone(true)
+        // take out decal nodes of a re-imported export before measuring the model
+        const importedDecals = extractDecalNodes(modelNode)
 
         // reset transforms
         modelNode.position.set(0, 0, 0)
@@ -48,6 +59,12 @@ export function useModelReset(params: {
         const center = bbox.getCenter(new THREE.Vector3())
         modelNode.position.sub(center)
 
+        // keep the real size: glTF units are meters, so one normalized unit is 1 / scaleFactor m
+        useDesignStore.getState().setModelScale(
+            { metersPerUnit: 1 / scaleFactor, calibrated: false },
+            bbox.getSize(new THREE.Vector3())
+        )
+
         // add to modelRef
         modelRef.current.add(modelNode)
 
@@ -70,7 +87,9 @@ export function useModelReset(params: {
         camera.lookAt(0, 0, 0)
         persp.updateProjectionMatrix()
 
-        // notify the app / MaterialSwatches about the loaded model root
-        window.dispatchEvent(new CustomEvent('modelReady', { detail: { model: modelRef.current } }))
-    }, [gltf, camera])
+        // publish the loaded model root (MaterialSwatches samples its materials from the store)
+        useDesignStore.getState().setModelRoot(modelRef.current)
+
+        if (importedDecals.length) onDecalsImportedRef.current?.(importedDecals)
+    }, [gltf, camera, modelRef])
 }
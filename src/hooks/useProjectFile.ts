@@ -0,0 +1,116 @@
+// src/hooks/useProjectFile.ts
+import { useEffect, useRef, type RefObject } from 'react'
+import * as THREE from 'three'
+import type { DecalRec, DecalState } from '../components/ModelWithDecals'
+import { waitForImage } from '../utils/decalUtils'
+import { selectSavedUnits, useDesignStore } from '../store/designStore'
+import { downloadBlob } from '../utils/downloadUtils'
+import { loadCustomFont } from '../utils/fontUtils'
+import {
+    applyMaterialColors,
+    applyView,
+    createProjectBundle,
+    deserializeDecal,
+    PROJECT_FILE_EXTENSION,
+    writeProjectFile,
+} from '../utils/projectFile'
+
+// Rebuilds store.pendingProject once its GLB is loaded; returns the implementation of store.saveProject
+export function useProjectFile(params: {
+    gltf: { scene: THREE.Object3D } | null
+    glbUrl: string | null
+    camera: THREE.Camera
+    containerRef: RefObject<THREE.Group | null>
+    modelRef: RefObject<THREE.Group | null>
+    logoImgsRef: RefObject<(HTMLImageElement | null)[]>
+    buildDecal: (state: DecalState) => DecalRec
+}) {
+    const { gltf, glbUrl, camera, containerRef, modelRef, logoImgsRef, buildDecal } = params
+    const project = useDesignStore(s => s.pendingProject)
+    // latest builder; a restore in progress must not restart because the caller re-rendered
+    const buildDecalRef = useRef(buildDecal)
+    useEffect(() => {
+        buildDecalRef.current = buildDecal
+    })
+
+    // Save: bundle the current design into a .mockup download
+    const saveProject = async (modelName: string) => {
+        if (!glbUrl || !modelRef.current) return
+        const { logos, logoCleanups, texts, fonts, decals } = useDesignStore.getState()
+        try {
+            const bundle = await createProjectBundle({
+                glbUrl,
+                modelName,
+                logos,
+                logoCleanups,
+                texts,
+                fonts,
+                decals,
+                modelRoot: modelRef.current,
+                camera,
+                container: containerRef.current,
+                units: selectSavedUnits(useDesignStore.getState()),
+            })
+            const blob = await writeProjectFile(bundle)
+            const base = modelName.replace(/\.(glb|gltf)$/i, '') || 'mockup'
+            downloadBlob(blob, `${base}${PROJECT_FILE_EXTENSION}`)
+        } catch (err) {
+            console.error('Failed to save project', err)
+            window.alert('Could not save the project file.')
+        }
+    }
+
+    // Open: once the project's GLB is in modelRef, re-apply colors and rebuild decals.
+    // Declared after useModelReset so the new model node is already in place.
+    useEffect(() => {
+        if (!project || !gltf?.scene || !modelRef.current) return
+        const root = modelRef.current
+        let cancelled = false
+
+        applyMaterialColors(root, project.manifest.materialColors)
+        useDesignStore.getState().refreshMaterialColors()
+        const { units } = project.manifest
+        if (units) {
+            // an uncalibrated scale comes from the GLB and was just set by useModelReset
+            if (units.calibrated) useDesignStore.getState().setModelScale({ metersPerUnit: units.metersPerUnit, calibrated: true })
+            useDesignStore.getState().setLengthUnit(units.display)
+        }
+        // view before decals: decal geometry is built relative to the container transform
+        if (project.manifest.view && containerRef.current) applyView(project.manifest.view, camera, containerRef.current)
+
+        const restore = async () => {
+            // text drawn before its font is in would use a fallback font
+            await Promise.all(project.fonts.map(f => loadCustomFont(f).catch(err => {
+                console.warn(`Could not load font ${f.family}`, err)
+            })))
+            await Promise.all(logoImgsRef.current.map(waitForImage))
+            if (cancelled) return
+
+            root.updateMatrixWorld(true)
+            const restored: DecalRec[] = []
+            project.manifest.decals.forEach(saved => {
+                const state = deserializeDecal(saved, root)
+                if (!state) {
+                    console.warn(`Skipping decal ${saved.id}: its mesh is not in the model`)
+                    return
+                }
+                restored.push(buildDecalRef.current(state))
+            })
+            const { setDecals, setPendingProject } = useDesignStore.getState()
+            setDecals(prev => [...prev, ...restored])
+            setPendingProject(null)
+        }
+        restore().catch(err => {
+            console.error('Failed to restore project decals', err)
+            window.alert(`Could not restore the project's decals: ${(err as Error).message}`)
+            // unblocks the session autosave, which waits for the pending project
+            if (!cancelled) useDesignStore.getState().setPendingProject(null)
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [project, gltf, camera, containerRef, modelRef, logoImgsRef])
+
+    return saveProject
+}
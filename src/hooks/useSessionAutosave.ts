@@ -0,0 +1,85 @@
+// src/hooks/useSessionAutosave.ts
+import { useEffect, type RefObject } from 'react'
+import * as THREE from 'three'
+import { useThree } from '@react-three/fiber'
+import { useHistoryStore } from '../store/historyStore'
+import { selectSavedUnits, useDesignStore } from '../store/designStore'
+import { createProjectBundle } from '../utils/projectFile'
+import { saveSession } from '../utils/sessionDb'
+
+// quiet period after the last change before writing to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000
+
+export function useSessionAutosave(params: {
+    sessionId: string | null
+    modelName: string
+    glbUrl: string | null
+    camera: THREE.Camera
+    containerRef: RefObject<THREE.Group | null>
+    modelRef: RefObject<THREE.Group | null>
+}) {
+    const { sessionId, modelName, glbUrl, camera, containerRef, modelRef } = params
+    const logos = useDesignStore(s => s.logos)
+    const logoCleanups = useDesignStore(s => s.logoCleanups)
+    const texts = useDesignStore(s => s.texts)
+    const fonts = useDesignStore(s => s.fonts)
+    const decals = useDesignStore(s => s.decals)
+    // calibration is in the undo history; the display unit is not
+    const lengthUnit = useDesignStore(s => s.lengthUnit)
+    // a project/session being restored must not be overwritten half-built
+    const paused = useDesignStore(s => !!s.pendingProject)
+    // the viewer's orbit controls; orbiting and zooming move the camera without any store change
+    const controls = useThree(s => s.controls) as THREE.EventDispatcher<{ change: object }> | null
+
+    useEffect(() => {
+        if (!sessionId || !glbUrl || paused) return
+        let timer: number | undefined
+
+        const save = async () => {
+            if (!modelRef.current) return
+            try {
+                const bundle = await createProjectBundle({
+                    glbUrl,
+                    modelName,
+                    logos,
+                    logoCleanups,
+                    texts,
+                    fonts,
+                    decals,
+                    modelRoot: modelRef.current,
+                    camera,
+                    container: containerRef.current,
+                    units: selectSavedUnits(useDesignStore.getState()),
+                })
+                await saveSession(sessionId, modelName, bundle)
+            } catch (err) {
+                console.warn('Session autosave failed', err)
+            }
+        }
+        const schedule = () => {
+            window.clearTimeout(timer)
+            timer = window.setTimeout(save, AUTOSAVE_DELAY_MS)
+        }
+
+        // decals/logos/texts/fonts changes re-run this effect; colors and model transforms
+        // aren't tracked here, but every one of them lands in the undo history
+        schedule()
+        const unsubscribe = useHistoryStore.subscribe(schedule)
+        controls?.addEventListener('change', schedule)
+
+        // flush right away when the tab is hidden or about to unload
+        const onVisibility = () => {
+            if (document.visibilityState !== 'hidden') return
+            window.clearTimeout(timer)
+            save()
+        }
+        document.addEventListener('visibilitychange', onVisibility)
+
+        return () => {
+            window.clearTimeout(timer)
+            unsubscribe()
+            controls?.removeEventListener('change', schedule)
+            document.removeEventListener('visibilitychange', onVisibility)
+        }
+    }, [sessionId, modelName, glbUrl, logos, logoCleanups, texts, fonts, decals, lengthUnit, camera, controls, containerRef, modelRef, paused])
+}
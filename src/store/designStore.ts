@@ -0,0 +1,327 @@
+// src/store/designStore.ts
+import { create } from 'zustand'
+import * as THREE from 'three'
+import type { AssetRef, DecalRec, DecalState } from '../components/ModelWithDecals'
+import type { ProjectBundle, SavedUnits } from '../utils/projectFile'
+import type { ImageExportOptions } from '../utils/imageExport'
+import type { ViewExportOptions } from '../utils/viewExport'
+import type { TurntableOptions, TurntableProgress } from '../utils/turntableExport'
+import type { GlbExportOptions } from '../utils/glbExport'
+import type { UsdzExportOptions } from '../utils/usdzExport'
+import type { TechPackOptions } from '../utils/techPack'
+import type { LengthUnit, ModelAxis, ModelScale } from '../utils/units'
+import type { TextPath, TextStyle } from '../utils/textDecal'
+import type { CustomFont } from '../utils/fontUtils'
+import { DECAL_RENDER_ORDER, type DecalBlendMode, type DecalFinish } from '../utils/decalFinish'
+import { DEFAULT_LOGO_RESOLUTION } from '../utils/logoRaster'
+import type { LogoCleanup } from '../utils/logoCleanup'
+import type { SymmetryAxis } from '../utils/decalMirror'
+import type { CopiedDecal } from '../utils/decalClipboard'
+import { collectMaterials, sampleMaterialColor, setMaterialColor, type MaterialGroup } from '../utils/materialUtils'
+import { useHistoryStore } from './historyStore'
+
+export type DecalCommand =
+    | { action: 'delete' }
+    | { action: 'updateText'; text: string }
+    | { action: 'updateFont'; font: string }
+    | { action: 'updateColor'; color: string }
+    | { action: 'setSize'; size: number }
+    // model-space width and/or height; setting the height unlocks the aspect ratio
+    | { action: 'setDimensions'; width?: number; height?: number }
+    | { action: 'setAspectLock'; locked: boolean }
+    | { action: 'setFlip'; flipX?: boolean; flipY?: boolean }
+    | { action: 'setFinish'; finish: DecalFinish }
+    | { action: 'setOpacity'; opacity: number }
+    | { action: 'setBlendMode'; blendMode: DecalBlendMode }
+    // move the decal to this position in the layer order (the decals list; later is on top)
+    | { action: 'moveLayer'; to: number }
+    | { action: 'setFontSize'; fontSize: number }
+    | { action: 'setTextStyle'; style: Partial<TextStyle> }
+    | { action: 'setTextPath'; path: Partial<TextPath> }
+    | { action: 'setRotation'; rotationDeg: number }
+    // move the decal center to the surface under this model-space point
+    | { action: 'setPosition'; position: THREE.Vector3 }
+    // copy the decal, slightly offset, just above it in the layer order; the copy gets selected
+    | { action: 'duplicate' }
+    // create or refresh the decal's linked twin, mirrored across the container plane normal to `axis`
+    | { action: 'mirror'; axis: SymmetryAxis }
+    // break the link with the twin; both decals stay
+    | { action: 'unlink' }
+    // (re)build a decal from a captured state, e.g. when undoing a delete
+    | { action: 'restore'; state: DecalState }
+
+// Edits applied to every selected decal at once, as one undo step
+export type SelectionCommand =
+    | { action: 'delete' }
+    // copies of the selected decals; the copies become the selection
+    | { action: 'duplicate' }
+    // widths (and unlocked heights) times `factor`
+    | { action: 'scale'; factor: number }
+    // in-plane rotation by `deg`, each decal around its own normal
+    | { action: 'rotate'; deg: number }
+    // text decals only; logos keep their own colors
+    | { action: 'recolor'; color: string }
+    // shift along the surface by a model-space offset; `except` stays put (e.g. the decal that was dragged)
+    | { action: 'move'; offset: THREE.Vector3; except?: string }
+
+export type ContainerTransform = {
+    position: THREE.Vector3
+    quaternion: THREE.Quaternion
+    scale: THREE.Vector3
+}
+
+export type ModelCommand =
+    | { action: 'zoom'; delta: number }
+    | { action: 'rotate'; axis: 'x' | 'y' | 'z'; deg: number }
+    | { action: 'resetTransform' }
+    // put back a captured transform (undo/redo, restore)
+    | { action: 'setTransform'; transform: ContainerTransform }
+
+/**
+ * Operations that need the live three.js scene. ModelWithDecals registers one
+ * while a model is mounted; store actions are no-ops without it.
+ */
+export type SceneController = {
+    decalCommand: (id: string, cmd: DecalCommand) => void
+    selectionCommand: (cmd: SelectionCommand) => void
+    copyDecals: () => void
+    pasteDecals: () => Promise<void>
+    modelCommand: (cmd: ModelCommand) => void
+    clearDecals: () => void
+    exportImage: (options: ImageExportOptions) => Promise<void>
+    exportViews: (options: ViewExportOptions) => Promise<void>
+    exportTurntable: (options: TurntableOptions, onProgress?: TurntableProgress) => Promise<void>
+    exportGLB: (options: GlbExportOptions) => Promise<void>
+    exportUSDZ: (options: UsdzExportOptions) => Promise<string[] | null>
+    exportTechPack: (options: TechPackOptions) => Promise<void>
+    saveProject: (modelName: string) => Promise<void>
+}
+
+type DesignState = {
+    // assets available for placement
+    logos: File[]
+    // clean-up applied to each logo, by logo index; missing entries mean none
+    logoCleanups: (LogoCleanup | null)[]
+    texts: string[]
+    // uploaded fonts, already registered with document.fonts
+    fonts: CustomFont[]
+    // canvas size of bitmap logo decals; SVG logos follow their on-screen size
+    logoResolution: number
+    assetSelection: AssetRef | null
+
+    // model
+    modelRoot: THREE.Object3D | null
+    materialGroups: MaterialGroup[]
+    // project waiting for its GLB to load before decals are rebuilt
+    pendingProject: ProjectBundle | null
+    // real-world size of model space (see ModelScale) and the model's bounding box in it
+    modelScale: ModelScale
+    modelSize: THREE.Vector3 | null
+    lengthUnit: LengthUnit
+
+    // decals
+    decals: DecalRec[]
+    // the primary selection (last clicked): the gizmo and single-decal tools work on it
+    selectedId: string | null
+    // everything selected, primary included; group operations apply to all of it
+    selectedIds: string[]
+    // decals copied with copyDecals; kept when the model changes, so they can be pasted onto another one
+    decalClipboard: CopiedDecal[]
+    // editing aid: show the parts of decals the model hides
+    highlightHiddenDecals: boolean
+    // while set, newly placed and dragged decals get a linked twin mirrored across this axis
+    symmetryAxis: SymmetryAxis | null
+
+    scene: SceneController | null
+
+    setLogos: (fn: (prev: File[]) => File[]) => void
+    setLogoCleanups: (fn: (prev: (LogoCleanup | null)[]) => (LogoCleanup | null)[]) => void
+    setLogoCleanup: (index: number, cleanup: LogoCleanup | null) => void
+    setTexts: (fn: (prev: string[]) => string[]) => void
+    setFonts: (fn: (prev: CustomFont[]) => CustomFont[]) => void
+    setLogoResolution: (size: number) => void
+    setAssetSelection: (sel: AssetRef | null) => void
+    removeLogoAsset: (index: number) => void
+
+    setModelRoot: (root: THREE.Object3D | null) => void
+    refreshMaterialColors: () => void
+    setMaterialColor: (groupId: string, hex: string) => void
+    setPendingProject: (project: ProjectBundle | null) => void
+    setModelScale: (scale: ModelScale, size?: THREE.Vector3 | null) => void
+    // sets the scale so the model's bounding box measures `meters` along axis
+    calibrateModel: (axis: ModelAxis, meters: number) => void
+    setLengthUnit: (unit: LengthUnit) => void
+
+    setDecals: (fn: (prev: DecalRec[]) => DecalRec[]) => void
+    // with `toggle` (Shift-click), adds the decal to or takes it out of the selection instead of replacing it
+    selectDecal: (id: string | null, toggle?: boolean) => void
+    selectDecals: (ids: string[]) => void
+    deselectDecal: (id: string) => void
+    setDecalClipboard: (copied: CopiedDecal[]) => void
+    setHighlightHiddenDecals: (on: boolean) => void
+    setSymmetryAxis: (axis: SymmetryAxis | null) => void
+
+    registerScene: (scene: SceneController | null) => void
+    decalCommand: (id: string, cmd: DecalCommand) => void
+    selectionCommand: (cmd: SelectionCommand) => void
+    copyDecals: () => void
+    pasteDecals: () => Promise<void>
+    modelCommand: (cmd: ModelCommand) => void
+    clearDecals: () => void
+    exportImage: (options: ImageExportOptions) => Promise<void>
+    exportViews: (options: ViewExportOptions) => Promise<void>
+    exportTurntable: (options: TurntableOptions, onProgress?: TurntableProgress) => Promise<void>
+    exportGLB: (options: GlbExportOptions) => Promise<void>
+    exportUSDZ: (options: UsdzExportOptions) => Promise<string[] | null>
+    exportTechPack: (options: TechPackOptions) => Promise<void>
+    saveProject: (modelName: string) => Promise<void>
+}
+
+// bumped on every sampling run so a slow, older run never overwrites a newer one
+let materialSampleRun = 0
+
+async function sampleGroups(groups: MaterialGroup[]): Promise<MaterialGroup[]> {
+    return Promise.all(groups.map(async (g) => ({ ...g, sampleColor: await sampleMaterialColor(g.material) })))
+}
+
+export const useDesignStore = create<DesignState>((set, get) => ({
+    logos: [],
+    logoCleanups: [],
+    texts: [],
+    fonts: [],
+    logoResolution: DEFAULT_LOGO_RESOLUTION,
+    assetSelection: null,
+    modelRoot: null,
+    materialGroups: [],
+    pendingProject: null,
+    modelScale: { metersPerUnit: 1, calibrated: false },
+    modelSize: null,
+    lengthUnit: 'cm',
+    decals: [],
+    selectedId: null,
+    selectedIds: [],
+    decalClipboard: [],
+    highlightHiddenDecals: false,
+    symmetryAxis: null,
+    scene: null,
+
+    setLogos: (fn) => set((s) => ({ logos: fn(s.logos) })),
+    setLogoCleanups: (fn) => set((s) => ({ logoCleanups: fn(s.logoCleanups) })),
+    setLogoCleanup: (index, cleanup) => set((s) => {
+        const logoCleanups = [...s.logoCleanups]
+        logoCleanups[index] = cleanup
+        return { logoCleanups: Array.from(logoCleanups, (c) => c ?? null) }
+    }),
+    setTexts: (fn) => set((s) => ({ texts: fn(s.texts) })),
+    setFonts: (fn) => set((s) => ({ fonts: fn(s.fonts) })),
+    setLogoResolution: (logoResolution) => set({ logoResolution }),
+    setAssetSelection: (assetSelection) => set({ assetSelection }),
+
+    removeLogoAsset: (index) => {
+        const { decals, scene, assetSelection } = get()
+        decals
+            .filter((d) => d.meta.type === 'logo' && d.meta.index === index)
+            .forEach((d) => scene?.decalCommand(d.id, { action: 'delete' }))
+        // later logos shift down by one; keep their decals pointing at the same image
+        set((s) => ({
+            logos: s.logos.filter((_, i) => i !== index),
+            logoCleanups: s.logoCleanups.filter((_, i) => i !== index),
+            decals: s.decals.map((d) => d.meta.type === 'logo' && d.meta.index > index
+                ? { ...d, meta: { ...d.meta, index: d.meta.index - 1 } }
+                : d),
+            assetSelection: assetSelection?.type === 'logo' && assetSelection.index === index ? null : assetSelection,
+        }))
+        // undo entries reference logo indices that no longer exist
+        useHistoryStore.getState().clear()
+    },
+
+    setModelRoot: (modelRoot) => {
+        set({ modelRoot, materialGroups: [] })
+        if (modelRoot) get().refreshMaterialColors()
+    },
+
+    refreshMaterialColors: () => {
+        const { modelRoot } = get()
+        if (!modelRoot) return
+        const run = ++materialSampleRun
+        sampleGroups(collectMaterials(modelRoot)).then((materialGroups) => {
+            if (run === materialSampleRun) set({ materialGroups })
+        })
+    },
+
+    setMaterialColor: (groupId, hex) => {
+        const group = get().materialGroups.find((g) => g.id === groupId)
+        if (!group) return
+        const before = group.material.color ? `#${group.material.color.getHexString()}` : group.sampleColor ?? '#888888'
+        const apply = (color: string) => {
+            setMaterialColor(group.material, color)
+            set((s) => ({ materialGroups: s.materialGroups.map((g) => (g.id === groupId ? { ...g, sampleColor: color } : g)) }))
+        }
+        apply(hex)
+        // color picker fires continuously while dragging; the key merges that into one entry
+        useHistoryStore.getState().push({
+            label: `Change ${group.name} color`,
+            key: `material:${groupId}`,
+            undo: () => apply(before),
+            redo: () => apply(hex),
+        })
+    },
+
+    setPendingProject: (pendingProject) => set({ pendingProject }),
+
+    setModelScale: (modelScale, size) => set(size === undefined ? { modelScale } : { modelScale, modelSize: size }),
+
+    calibrateModel: (axis, meters) => {
+        const { modelSize, modelScale: before } = get()
+        if (!modelSize || !(modelSize[axis] > 0) || !(meters > 0)) return
+        const after = { metersPerUnit: meters / modelSize[axis], calibrated: true }
+        set({ modelScale: after })
+        useHistoryStore.getState().push({
+            label: 'Calibrate model size',
+            undo: () => set({ modelScale: before }),
+            redo: () => set({ modelScale: after }),
+        })
+    },
+
+    setLengthUnit: (lengthUnit) => set({ lengthUnit }),
+
+    setDecals: (fn) => set((s) => {
+        const decals = fn(s.decals)
+        // the list order is the layer order
+        decals.forEach((d, i) => { d.mesh.renderOrder = DECAL_RENDER_ORDER + i })
+        return { decals }
+    }),
+    selectDecal: (id, toggle = false) => set((s) => {
+        if (!toggle || !id) return { selectedId: id, selectedIds: id ? [id] : [] }
+        const selectedIds = s.selectedIds.includes(id) ? s.selectedIds.filter((x) => x !== id) : [...s.selectedIds, id]
+        return { selectedIds, selectedId: selectedIds[selectedIds.length - 1] ?? null }
+    }),
+    selectDecals: (selectedIds) => set({ selectedIds, selectedId: selectedIds[selectedIds.length - 1] ?? null }),
+    deselectDecal: (id) => set((s) => {
+        const selectedIds = s.selectedIds.filter((x) => x !== id)
+        return { selectedIds, selectedId: s.selectedId === id ? selectedIds[selectedIds.length - 1] ?? null : s.selectedId }
+    }),
+    setDecalClipboard: (decalClipboard) => set({ decalClipboard }),
+    setHighlightHiddenDecals: (highlightHiddenDecals) => set({ highlightHiddenDecals }),
+    setSymmetryAxis: (symmetryAxis) => set({ symmetryAxis }),
+
+    registerScene: (scene) => set({ scene }),
+    decalCommand: (id, cmd) => get().scene?.decalCommand(id, cmd),
+    selectionCommand: (cmd) => get().scene?.selectionCommand(cmd),
+    copyDecals: () => get().scene?.copyDecals(),
+    pasteDecals: async () => get().scene?.pasteDecals(),
+    modelCommand: (cmd) => get().scene?.modelCommand(cmd),
+    clearDecals: () => get().scene?.clearDecals(),
+    exportImage: async (options) => get().scene?.exportImage(options),
+    exportViews: async (options) => get().scene?.exportViews(options),
+    exportTurntable: async (options, onProgress) => get().scene?.exportTurntable(options, onProgress),
+    exportGLB: async (options) => get().scene?.exportGLB(options),
+    exportUSDZ: async (options) => (await get().scene?.exportUSDZ(options)) ?? null,
+    exportTechPack: async (options) => get().scene?.exportTechPack(options),
+    saveProject: async (modelName) => get().scene?.saveProject(modelName),
+}))
+
+export const selectSavedUnits = (s: DesignState): SavedUnits => ({ ...s.modelScale, display: s.lengthUnit })
+export const selectSelectedDecal = (s: DesignState) => s.decals.find((d) => d.id === s.selectedId) ?? null
+export const selectSelectedDecals = (s: DesignState) => s.decals.filter((d) => s.selectedIds.includes(d.id))
+export const selectDecalsOfType = (type: AssetRef['type']) => (s: DesignState) => s.decals.filter((d) => d.meta.type === type)
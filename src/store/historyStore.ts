@@ -0,0 +1,123 @@
+// src/store/historyStore.ts
+import { create } from 'zustand'
+
+export type HistoryEntry = {
+    label: string
+    // entries pushed with the same key in quick succession (drags, slider scrubs) merge into one
+    key?: string
+    time: number
+    undo: () => void
+    redo: () => void
+}
+
+type HistoryState = {
+    past: HistoryEntry[]
+    future: HistoryEntry[]
+    // true while an entry's undo/redo runs, so the commands it replays are not recorded again
+    applying: boolean
+    // entries pushed inside a transaction, combined into one when it ends
+    collecting: Omit<HistoryEntry, 'time'>[] | null
+    push: (entry: Omit<HistoryEntry, 'time'>) => void
+    // runs `run` and records everything it pushes as a single entry, e.g. an edit to a decal and its mirrored twin
+    transaction: (run: () => void) => void
+    // a transaction spanning several events, e.g. a drag gesture: pushes between begin and commit become one entry
+    // with `standalone`, the entry never merges with the one before it, so each gesture stays its own undo step
+    begin: () => void
+    commit: (standalone?: boolean) => void
+    undo: () => void
+    redo: () => void
+    clear: () => void
+}
+
+const COALESCE_MS = 800
+const MAX_ENTRIES = 100
+
+// open begin() calls; nested transactions fold into the outermost one
+let transactionDepth = 0
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+    past: [],
+    future: [],
+    applying: false,
+    collecting: null,
+
+    push: (entry) => {
+        const { past, future, applying, collecting } = get()
+        if (applying) return
+        if (collecting) {
+            // repeated edits inside one transaction (a drag gesture) keep the first "before" and the newest "after"
+            const same = entry.key ? collecting.findIndex(e => e.key === entry.key) : -1
+            if (same >= 0) collecting[same] = { ...collecting[same], redo: entry.redo }
+            else collecting.push(entry)
+            return
+        }
+        const now = Date.now()
+        const last = past[past.length - 1]
+
+        if (entry.key && !future.length && last?.key === entry.key && now - last.time < COALESCE_MS) {
+            // keep the oldest "before" and the newest "after"
+            const merged: HistoryEntry = { ...last, redo: entry.redo, time: now }
+            set({ past: [...past.slice(0, -1), merged], future: [] })
+            return
+        }
+
+        set({ past: [...past, { ...entry, time: now }].slice(-MAX_ENTRIES), future: [] })
+    },
+
+    transaction: (run) => {
+        get().begin()
+        try {
+            run()
+        } finally {
+            get().commit()
+        }
+    },
+
+    begin: () => {
+        if (transactionDepth++ === 0) set({ collecting: [] })
+    },
+
+    commit: (standalone = false) => {
+        if (transactionDepth === 0 || --transactionDepth > 0) return
+        const entries = get().collecting ?? []
+        set({ collecting: null })
+        if (entries.length <= 1) {
+            if (entries.length) get().push(standalone ? { ...entries[0], key: undefined } : entries[0])
+            return
+        }
+        get().push({
+            label: entries[0].label,
+            // repeated transactions of the same edits (slider scrubs) still merge
+            key: !standalone && entries.every(e => e.key) ? entries.map(e => e.key).join('|') : undefined,
+            undo: () => entries.slice().reverse().forEach(e => e.undo()),
+            redo: () => entries.forEach(e => e.redo()),
+        })
+    },
+
+    undo: () => {
+        const { past, future } = get()
+        const entry = past[past.length - 1]
+        if (!entry) return
+        set({ applying: true })
+        try {
+            entry.undo()
+        } finally {
+            set({ applying: false, past: past.slice(0, -1), future: [...future, entry] })
+        }
+    },
+
+    redo: () => {
+        const { past, future } = get()
+        const entry = future[future.length - 1]
+        if (!entry) return
+        set({ applying: true })
+        try {
+            entry.redo()
+        } finally {
+            // time 0 so a fresh edit right after redo never merges into it
+            set({ applying: false, past: [...past, { ...entry, time: 0 }], future: future.slice(0, -1) })
+        }
+    },
+
+    clear: () => set({ past: [], future: [] }),
+}))
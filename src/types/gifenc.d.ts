@@ -0,0 +1,40 @@
+// src/types/gifenc.d.ts
+// gifenc ships without type declarations; this covers the parts we use.
+declare module 'gifenc' {
+    export type GifFormat = 'rgb565' | 'rgb444' | 'rgba4444'
+    export type GifPalette = number[][]
+
+    export function quantize(
+        rgba: Uint8Array | Uint8ClampedArray,
+        maxColors: number,
+        options?: {
+            format?: GifFormat
+            oneBitAlpha?: boolean | number
+            clearAlpha?: boolean
+            clearAlphaThreshold?: number
+            clearAlphaColor?: number
+        }
+    ): GifPalette
+
+    export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: GifPalette, format?: GifFormat): Uint8Array
+
+    export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): {
+        writeFrame(
+            index: Uint8Array,
+            width: number,
+            height: number,
+            options?: {
+                palette?: GifPalette
+                first?: boolean
+                transparent?: boolean
+                transparentIndex?: number
+                delay?: number
+                repeat?: number
+                dispose?: number
+            }
+        ): void
+        finish(): void
+        bytes(): Uint8Array
+        bytesView(): Uint8Array
+    }
+}
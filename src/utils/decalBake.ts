@@ -0,0 +1,292 @@
+// src/utils/decalBake.ts
+import * as THREE from 'three'
+import type { DecalRec } from '../components/ModelWithDecals'
+import { containerScale, decalBoxSize, decalSize } from './decalUtils'
+import type { DecalBlendMode } from './decalFinish'
+
+// texture size for materials that only had a flat color
+const DEFAULT_BAKE_SIZE = 2048
+// texels the decal layer is grown into empty space, hides seams at uv island edges
+const DILATE_PASSES = 2
+
+// canvas compositing matching each decal blend mode in the viewport
+const BLEND_OPERATIONS: Record<DecalBlendMode, GlobalCompositeOperation> = {
+    normal: 'source-over',
+    multiply: 'multiply',
+    screen: 'screen',
+}
+
+// Renders the target mesh unwrapped into its uv space; each texel looks up the
+// decal projected onto the surface point it covers.
+const bakeVertexShader = /* glsl */ `
+    uniform mat4 decalProjector;
+    uniform mat3 uvTransform;
+    varying vec3 vProjected;
+    varying float vFacing;
+
+    void main() {
+        vProjected = (decalProjector * vec4(position, 1.0)).xyz;
+        vFacing = normalize(mat3(decalProjector) * normal).z;
+        vec2 texUv = (uvTransform * vec3(uv, 1.0)).xy;
+        gl_Position = vec4(texUv * 2.0 - 1.0, 0.0, 1.0);
+    }
+`
+
+const bakeFragmentShader = /* glsl */ `
+    uniform sampler2D decalMap;
+    uniform vec3 decalSize;
+    uniform bool checkFacing;
+    varying vec3 vProjected;
+    varying float vFacing;
+
+    void main() {
+        vec3 p = vProjected / decalSize;
+        if (abs(p.x) > 0.5 || abs(p.y) > 0.5 || abs(p.z) > 0.5) discard;
+        if (checkFacing && vFacing <= 0.0) discard;
+        vec4 c = texture2D(decalMap, p.xy + 0.5);
+        gl_FragColor = vec4(c.rgb * c.a, c.a);
+    }
+`
+
+type BakeTarget = {
+    mesh: THREE.Mesh
+    // index into mesh.material when it is an array
+    slot: number | null
+    material: THREE.Material & { color: THREE.Color; map: THREE.Texture | null }
+    decals: DecalRec[]
+}
+
+/**
+ * World transform of the box DecalGeometry projects from, rebuilt from the
+ * decal's surface anchor the same way createDecalMesh does.
+ */
+function decalProjectorMatrix(rec: DecalRec) {
+    const hit = rec.hitObject!
+    const position = rec.localPosition!.clone().applyMatrix4(hit.matrixWorld)
+    const normal = rec.localNormal!.clone().transformDirection(hit.matrixWorld).normalize()
+
+    let orientation: THREE.Quaternion
+    if (rec.baseLocalRotation) {
+        const rot = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), THREE.MathUtils.degToRad(rec.rotationDeg ?? 0))
+        orientation = hit.getWorldQuaternion(new THREE.Quaternion()).multiply(rec.baseLocalRotation).multiply(rot)
+    } else {
+        // no stored orientation: align to the normal with world up
+        orientation = new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal)
+    }
+    return new THREE.Matrix4().compose(position, orientation, new THREE.Vector3(1, 1, 1))
+}
+
+function hasBakeableColor(mat: THREE.Material): mat is BakeTarget['material'] {
+    return 'color' in mat && mat.color instanceof THREE.Color && 'map' in mat
+}
+
+function collectTargets(decals: DecalRec[]): BakeTarget[] {
+    const targets = new Map<string, BakeTarget>()
+    decals.forEach(rec => {
+        const mesh = rec.hitObject as THREE.Mesh | undefined
+        if (!mesh?.isMesh || !rec.localPosition || !rec.localNormal) return
+        if (!mesh.geometry.getAttribute('uv')) {
+            console.warn(`Cannot bake decal ${rec.id}: mesh "${mesh.name}" has no uv coordinates`)
+            return
+        }
+        // bake into every material slot the mesh uses; the projection only lands where the decal covers
+        const slots = Array.isArray(mesh.material) ? mesh.material.map((_, i) => i) : [null]
+        slots.forEach(slot => {
+            const material = slot === null ? (mesh.material as THREE.Material) : (mesh.material as THREE.Material[])[slot]
+            if (!hasBakeableColor(material)) return
+            if (material.map && material.map.channel !== 0) {
+                console.warn(`Cannot bake decal ${rec.id}: "${material.name}" maps its texture to a secondary uv set`)
+                return
+            }
+            const key = `${mesh.uuid}:${slot}`
+            const target = targets.get(key) ?? { mesh, slot, material, decals: [] }
+            target.decals.push(rec)
+            targets.set(key, target)
+        })
+    })
+    return [...targets.values()]
+}
+
+// Base layer in the bake's row order (row 0 = v 0, i.e. glTF's flipY = false)
+function drawBaseLayer(target: BakeTarget, width: number, height: number) {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')!
+    const map = target.material.map
+    if (map?.image) {
+        const drawMap = () => {
+            if (map.flipY) {
+                ctx.translate(0, height)
+                ctx.scale(1, -1)
+            }
+            ctx.drawImage(map.image as CanvasImageSource, 0, 0, width, height)
+            ctx.setTransform(1, 0, 0, 1, 0, 0)
+        }
+        drawMap()
+        // the material color tints the map; bake it in, then put the map's alpha back
+        ctx.globalCompositeOperation = 'multiply'
+        ctx.fillStyle = `#${target.material.color.getHexString()}`
+        ctx.fillRect(0, 0, width, height)
+        ctx.globalCompositeOperation = 'destination-in'
+        drawMap()
+        ctx.globalCompositeOperation = 'source-over'
+    } else {
+        ctx.fillStyle = `#${target.material.color.getHexString()}`
+        ctx.fillRect(0, 0, width, height)
+    }
+    return canvas
+}
+
+// Premultiplied render target pixels -> straight-alpha ImageData, grown a few texels outward
+function toDecalLayer(pixels: Uint8Array, width: number, height: number) {
+    const data = new Uint8ClampedArray(pixels.length)
+    for (let i = 0; i < pixels.length; i += 4) {
+        const a = pixels[i + 3]
+        if (!a) continue
+        data[i] = (pixels[i] * 255) / a
+        data[i + 1] = (pixels[i + 1] * 255) / a
+        data[i + 2] = (pixels[i + 2] * 255) / a
+        data[i + 3] = a
+    }
+
+    for (let pass = 0; pass < DILATE_PASSES; pass++) {
+        const src = data.slice()
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = (y * width + x) * 4
+                if (src[i + 3]) continue
+                let n = -1
+                if (x > 0 && src[i - 1]) n = i - 4
+                else if (x < width - 1 && src[i + 7]) n = i + 4
+                else if (y > 0 && src[i - width * 4 + 3]) n = i - width * 4
+                else if (y < height - 1 && src[i + width * 4 + 3]) n = i + width * 4
+                if (n < 0) continue
+                data.set(src.subarray(n, n + 4), i)
+            }
+        }
+    }
+    return new ImageData(data, width, height)
+}
+
+// Renders one decal unwrapped into the target's uv space, as a straight-alpha layer
+function renderDecalLayer(gl: THREE.WebGLRenderer, target: BakeTarget, rec: DecalRec, width: number, height: number) {
+    const rt = new THREE.WebGLRenderTarget(width, height, { depthBuffer: false })
+    const bakeScene = new THREE.Scene()
+    const bakeCamera = new THREE.OrthographicCamera()
+    const hidden = new THREE.MeshBasicMaterial({ visible: false })
+    const mesh = target.mesh
+    mesh.updateMatrixWorld(true)
+
+    const uvTransform = new THREE.Matrix3()
+    if (target.material.map) {
+        target.material.map.updateMatrix()
+        uvTransform.copy(target.material.map.matrix)
+    }
+
+    const prevTarget = gl.getRenderTarget()
+    const prevAutoClear = gl.autoClear
+    const prevClearColor = gl.getClearColor(new THREE.Color())
+    const prevClearAlpha = gl.getClearAlpha()
+    const disposables: { dispose: () => void }[] = [rt, hidden]
+
+    try {
+        gl.setRenderTarget(rt)
+        gl.setClearColor(0x000000, 0)
+        gl.clear()
+        gl.autoClear = false
+
+        const map = new THREE.CanvasTexture(rec.canvas)
+        // composite raw canvas values: the baked result is an sRGB image like its base
+        map.colorSpace = THREE.NoColorSpace
+        const projector = decalProjectorMatrix(rec).invert().multiply(mesh.matrixWorld)
+        const material = new THREE.ShaderMaterial({
+            vertexShader: bakeVertexShader,
+            fragmentShader: bakeFragmentShader,
+            uniforms: {
+                decalProjector: { value: projector },
+                decalSize: { value: decalBoxSize(decalSize(rec), containerScale(rec.mesh.parent?.parent)) },
+                decalMap: { value: map },
+                uvTransform: { value: uvTransform },
+                checkFacing: { value: !!mesh.geometry.getAttribute('normal') },
+            },
+            side: THREE.DoubleSide,
+            depthTest: false,
+            depthWrite: false,
+            transparent: true,
+            blending: THREE.CustomBlending,
+            blendSrc: THREE.OneFactor,
+            blendDst: THREE.OneMinusSrcAlphaFactor,
+            toneMapped: false,
+        })
+        disposables.push(map, material)
+
+        const unwrapped = new THREE.Mesh(
+            mesh.geometry,
+            target.slot === null ? material : (mesh.material as THREE.Material[]).map((_, i) => (i === target.slot ? material : hidden))
+        )
+        unwrapped.frustumCulled = false
+        bakeScene.add(unwrapped)
+        gl.render(bakeScene, bakeCamera)
+        bakeScene.remove(unwrapped)
+
+        const pixels = new Uint8Array(width * height * 4)
+        gl.readRenderTargetPixels(rt, 0, 0, width, height, pixels)
+        return toDecalLayer(pixels, width, height)
+    } finally {
+        gl.setRenderTarget(prevTarget)
+        gl.autoClear = prevAutoClear
+        gl.setClearColor(prevClearColor, prevClearAlpha)
+        disposables.forEach(d => d.dispose())
+    }
+}
+
+/**
+ * Paints every decal into the uv-space texture of the mesh it sits on. Returns,
+ * per affected mesh, a replacement material (or material array) whose map is
+ * the original texture with the decals composited in; materials that only had
+ * a color get a new texture filled with that color. The scene is not modified.
+ */
+export function bakeDecals(gl: THREE.WebGLRenderer, decals: DecalRec[]) {
+    const baked = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>()
+
+    collectTargets(decals).forEach(target => {
+        const source = target.material.map?.image as { width?: number; height?: number } | undefined
+        const maxSize = gl.capabilities.maxTextureSize
+        const width = Math.min(source?.width || DEFAULT_BAKE_SIZE, maxSize)
+        const height = Math.min(source?.height || DEFAULT_BAKE_SIZE, maxSize)
+
+        const canvas = drawBaseLayer(target, width, height)
+        const ctx = canvas.getContext('2d')!
+        const layer = document.createElement('canvas')
+        layer.width = width
+        layer.height = height
+        const layerCtx = layer.getContext('2d')!
+        // one decal at a time in layer order, so each keeps its own opacity and blend mode
+        target.decals.forEach(rec => {
+            layerCtx.putImageData(renderDecalLayer(gl, target, rec, width, height), 0, 0)
+            ctx.globalAlpha = rec.opacity ?? 1
+            ctx.globalCompositeOperation = BLEND_OPERATIONS[rec.blendMode ?? 'normal']
+            ctx.drawImage(layer, 0, 0)
+        })
+        ctx.globalAlpha = 1
+        ctx.globalCompositeOperation = 'source-over'
+
+        // clone keeps wrapping/filtering/uv transform; a new source leaves the original image alone
+        const texture = target.material.map ? target.material.map.clone() : new THREE.Texture()
+        texture.source = new THREE.Source(canvas)
+        texture.flipY = false
+        texture.colorSpace = THREE.SRGBColorSpace
+        texture.needsUpdate = true
+
+        const material = target.material.clone() as BakeTarget['material']
+        material.map = texture
+        // the color (flat or tint) now lives in the texture; keep it from multiplying twice
+        material.color.set(0xffffff)
+
+        const current = baked.get(target.mesh) ?? target.mesh.material
+        if (target.slot === null) baked.set(target.mesh, material)
+        else baked.set(target.mesh, (current as THREE.Material[]).map((m, i) => (i === target.slot ? material : m)))
+    })
+    return baked
+}
@@ -0,0 +1,91 @@
+// src/utils/decalClipboard.ts
+import * as THREE from 'three'
+import type { DecalRec, DecalState } from '../components/ModelWithDecals'
+import type { CustomFont } from './fontUtils'
+import type { LogoCleanup } from './logoCleanup'
+import { captureDecalState, decalModelPosition, decalSize, decalWorldFrame, type DecalSize } from './decalUtils'
+
+/**
+ * A copied decal, detached from the model it was on so it can be pasted onto
+ * another model in the same session: its content and appearance, the assets
+ * it is drawn from, and where it sat relative to the model's bounding box.
+ * Nothing in it references the model's objects, so a replaced model can be freed.
+ */
+export type CopiedDecal = {
+    // everything but the surface anchor, which is found again on the model pasted onto
+    state: Omit<DecalState, 'hitObject' | 'localPosition' | 'localNormal' | 'baseLocalRotation'>
+    // the text entry or logo file (with its clean-up) the decal was made from
+    text?: string
+    logo?: { file: File; cleanup: LogoCleanup | null }
+    // uploaded font of a text decal; built-in fonts need nothing
+    font?: CustomFont
+    // the loaded model it was copied from (see copyDecal), and its center there in model space
+    modelId: string
+    position: THREE.Vector3
+    // center as a fraction of the model's size, measured from the model's center
+    fraction: THREE.Vector3
+    // artwork axes and surface normal, in model space
+    right: THREE.Vector3
+    up: THREE.Vector3
+    normal: THREE.Vector3
+    size: DecalSize
+    // model-space unit when copied; pasting onto another model keeps the printed size
+    metersPerUnit: number
+}
+
+/**
+ * Clipboard entry for a placed decal, or null for decals that were never
+ * anchored to a surface. `modelId` identifies the loaded model, so pasting
+ * back onto it can land next to the original.
+ */
+export function copyDecal(
+    rec: DecalRec,
+    modelId: string,
+    assets: { texts: string[]; logos: File[]; logoCleanups: (LogoCleanup | null)[]; fonts: CustomFont[] },
+    modelSize: THREE.Vector3,
+    metersPerUnit: number
+): CopiedDecal | null {
+    const captured = captureDecalState(rec)
+    const position = decalModelPosition(rec)
+    const frame = decalWorldFrame(rec)
+    const container = rec.mesh.parent?.parent
+    if (!captured || !position || !frame || !container) return null
+    const toModel = container.matrixWorld.clone().invert()
+    const { index } = rec.meta
+    return {
+        state: {
+            id: captured.id,
+            meta: captured.meta,
+            text: captured.text,
+            font: captured.font,
+            color: captured.color,
+            fontSize: captured.fontSize,
+            textStyle: captured.textStyle,
+            textPath: captured.textPath,
+            sizeForDecal: captured.sizeForDecal,
+            heightForDecal: captured.heightForDecal,
+            flipX: captured.flipX,
+            flipY: captured.flipY,
+            finish: captured.finish,
+            opacity: captured.opacity,
+            blendMode: captured.blendMode,
+            mirror: captured.mirror,
+            rotationDeg: captured.rotationDeg,
+        },
+        modelId,
+        position,
+        text: rec.meta.type === 'text' ? assets.texts[index] : undefined,
+        logo: rec.meta.type === 'logo' && assets.logos[index] ? { file: assets.logos[index], cleanup: assets.logoCleanups[index] ?? null } : undefined,
+        font: rec.meta.type === 'text' ? assets.fonts.find(f => f.family === rec.font) : undefined,
+        fraction: new THREE.Vector3(
+            modelSize.x ? position.x / modelSize.x : 0,
+            modelSize.y ? position.y / modelSize.y : 0,
+            modelSize.z ? position.z / modelSize.z : 0
+        ),
+        right: frame.right.transformDirection(toModel),
+        up: frame.up.transformDirection(toModel),
+        normal: frame.normal.transformDirection(toModel),
+        size: decalSize(rec),
+        metersPerUnit,
+    }
+}
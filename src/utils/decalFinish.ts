@@ -0,0 +1,251 @@
+// src/utils/decalFinish.ts
+import * as THREE from 'three'
+
+// How a decal is printed or applied; 'flat' is the unlit sticker look
+export type DecalFinish = 'flat' | 'screenPrint' | 'embroidery' | 'emboss' | 'deboss' | 'foil' | 'vinyl'
+
+export const DECAL_FINISHES: { value: DecalFinish; label: string }[] = [
+    { value: 'flat', label: 'Flat (unlit)' },
+    { value: 'screenPrint', label: 'Screen print' },
+    { value: 'embroidery', label: 'Embroidery' },
+    { value: 'emboss', label: 'Emboss' },
+    { value: 'deboss', label: 'Deboss' },
+    { value: 'foil', label: 'Metallic foil' },
+    { value: 'vinyl', label: 'Reflective vinyl' },
+]
+
+export function finishLabel(finish: DecalFinish = 'flat') {
+    return DECAL_FINISHES.find(f => f.value === finish)?.label ?? finish
+}
+
+// How a decal combines with what is under it; multiply and screen suit tone-on-tone prints
+export type DecalBlendMode = 'normal' | 'multiply' | 'screen'
+
+export const DECAL_BLEND_MODES: { value: DecalBlendMode; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'screen', label: 'Screen' },
+]
+
+export function blendModeLabel(mode: DecalBlendMode = 'normal') {
+    return DECAL_BLEND_MODES.find(m => m.value === mode)?.label ?? mode
+}
+
+// What a decal's material is built from; missing fields mean flat, opaque and normal blending
+export type DecalAppearance = {
+    finish?: DecalFinish
+    opacity?: number
+    blendMode?: DecalBlendMode
+}
+
+// Decals draw after the model, in list order (see setDecals), so later ones cover earlier ones
+export const DECAL_RENDER_ORDER = 999999
+
+// Decal geometry lies exactly on the model surface; pulling its depth toward the
+// camera keeps the depth test from z-fighting with it, slopes included
+export const DECAL_POLYGON_OFFSET = -4
+
+// Surface of a lit finish. Heights are built from the artwork's alpha, so edges
+// and patterns only show where there is ink.
+type FinishPreset = {
+    // normal map strength; negative presses the artwork in
+    relief: number
+    // alpha blur radius (map pixels) rounding the raised edge
+    bevel: number
+    roughness: number
+    metalness: number
+    // surface texture added to the height and roughness
+    pattern: 'none' | 'grain' | 'stitch' | 'crinkle'
+    // multiplies the artwork colors, e.g. to darken a pressed-in area
+    shade: number
+    clearcoat: number
+}
+
+const FINISH_PRESETS: Record<Exclude<DecalFinish, 'flat'>, FinishPreset> = {
+    screenPrint: { relief: 0.6, bevel: 1, roughness: 0.85, metalness: 0, pattern: 'grain', shade: 1, clearcoat: 0 },
+    embroidery: { relief: 4, bevel: 2, roughness: 0.9, metalness: 0, pattern: 'stitch', shade: 1, clearcoat: 0 },
+    emboss: { relief: 5, bevel: 6, roughness: 0.6, metalness: 0, pattern: 'none', shade: 1, clearcoat: 0 },
+    deboss: { relief: -5, bevel: 6, roughness: 0.75, metalness: 0, pattern: 'none', shade: 0.8, clearcoat: 0 },
+    foil: { relief: 1, bevel: 1, roughness: 0.25, metalness: 1, pattern: 'crinkle', shade: 1, clearcoat: 0 },
+    vinyl: { relief: 1.5, bevel: 1, roughness: 0.15, metalness: 0, pattern: 'none', shade: 1, clearcoat: 1 },
+}
+
+// longer side of the generated relief and roughness maps
+const MAP_SIZE = 512
+// thread spacing of the embroidery pattern, in map pixels
+const STITCH_PERIOD = 6
+
+// Repeatable per-pixel noise in 0–1
+function noise(x: number, y: number) {
+    const n = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453
+    return n - Math.floor(n)
+}
+
+// Separable box blur, run twice for a smoother falloff
+function blur(values: Float32Array, width: number, height: number, radius: number) {
+    if (radius < 1) return values
+    let src = values
+    for (let pass = 0; pass < 2; pass++) {
+        const tmp = new Float32Array(src.length)
+        const out = new Float32Array(src.length)
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0
+                for (let k = -radius; k <= radius; k++) sum += src[y * width + Math.min(width - 1, Math.max(0, x + k))]
+                tmp[y * width + x] = sum / (radius * 2 + 1)
+            }
+        }
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0
+                for (let k = -radius; k <= radius; k++) sum += tmp[Math.min(height - 1, Math.max(0, y + k)) * width + x]
+                out[y * width + x] = sum / (radius * 2 + 1)
+            }
+        }
+        src = out
+    }
+    return src
+}
+
+function patternAt(pattern: FinishPreset['pattern'], x: number, y: number) {
+    switch (pattern) {
+        // diagonal satin stitches
+        case 'stitch': return 0.5 + 0.5 * Math.sin(((x + y) * 2 * Math.PI) / STITCH_PERIOD)
+        case 'grain': return noise(x, y)
+        case 'crinkle': return noise(Math.floor(x / 3), Math.floor(y / 3))
+        default: return 0.5
+    }
+}
+
+/**
+ * Normal map and combined roughness (green) / metalness (blue) map for a lit
+ * finish, generated from the artwork's alpha at up to MAP_SIZE pixels.
+ */
+function finishMaps(artwork: HTMLCanvasElement, preset: FinishPreset) {
+    const scale = Math.min(1, MAP_SIZE / Math.max(artwork.width, artwork.height))
+    const width = Math.max(1, Math.round(artwork.width * scale))
+    const height = Math.max(1, Math.round(artwork.height * scale))
+    const small = document.createElement('canvas')
+    small.width = width
+    small.height = height
+    const smallCtx = small.getContext('2d')!
+    smallCtx.drawImage(artwork, 0, 0, width, height)
+    const pixels = smallCtx.getImageData(0, 0, width, height).data
+
+    const alpha = new Float32Array(width * height)
+    for (let i = 0; i < alpha.length; i++) alpha[i] = pixels[i * 4 + 3] / 255
+    const rounded = blur(alpha, width, height, preset.bevel)
+    const heights = new Float32Array(alpha.length)
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x
+            heights[i] = rounded[i] * (preset.pattern === 'none' ? 1 : 0.75 + 0.25 * patternAt(preset.pattern, x, y))
+        }
+    }
+
+    const normalCanvas = document.createElement('canvas')
+    const surfaceCanvas = document.createElement('canvas')
+    normalCanvas.width = surfaceCanvas.width = width
+    normalCanvas.height = surfaceCanvas.height = height
+    const normalCtx = normalCanvas.getContext('2d')!
+    const surfaceCtx = surfaceCanvas.getContext('2d')!
+    const normals = normalCtx.createImageData(width, height)
+    const surface = surfaceCtx.createImageData(width, height)
+    const at = (x: number, y: number) => heights[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4
+            // canvas rows run down while texture v runs up, hence the sign of the y slope
+            const dx = (at(x + 1, y) - at(x - 1, y)) * preset.relief
+            const dy = (at(x, y + 1) - at(x, y - 1)) * preset.relief
+            const length = Math.hypot(dx, dy, 1)
+            normals.data[i] = ((-dx / length) * 0.5 + 0.5) * 255
+            normals.data[i + 1] = ((dy / length) * 0.5 + 0.5) * 255
+            normals.data[i + 2] = ((1 / length) * 0.5 + 0.5) * 255
+            normals.data[i + 3] = 255
+
+            const texture = patternAt(preset.pattern, x, y)
+            surface.data[i + 1] = THREE.MathUtils.clamp(preset.roughness + (texture - 0.5) * 0.2, 0.04, 1) * 255
+            surface.data[i + 2] = preset.metalness * 255
+            surface.data[i + 3] = 255
+        }
+    }
+    normalCtx.putImageData(normals, 0, 0)
+    surfaceCtx.putImageData(surface, 0, 0)
+    return { normalMap: new THREE.CanvasTexture(normalCanvas), surfaceMap: new THREE.CanvasTexture(surfaceCanvas) }
+}
+
+/**
+ * Sets a decal material's opacity and blend mode. Multiply and screen use custom
+ * blend factors, which work on premultiplied colors.
+ */
+export function applyDecalBlending(material: THREE.Material, { opacity = 1, blendMode = 'normal' }: DecalAppearance) {
+    material.opacity = opacity
+    if (blendMode === 'normal') {
+        material.blending = THREE.NormalBlending
+        material.premultipliedAlpha = false
+    } else {
+        material.blending = THREE.CustomBlending
+        material.premultipliedAlpha = true
+        material.blendEquation = THREE.AddEquation
+        // multiply: dst × (1 − a + color·a); screen: dst + color·a × (1 − dst)
+        material.blendSrc = blendMode === 'multiply' ? THREE.DstColorFactor : THREE.OneMinusDstColorFactor
+        material.blendDst = blendMode === 'multiply' ? THREE.OneMinusSrcAlphaFactor : THREE.OneFactor
+    }
+    material.needsUpdate = true
+}
+
+/**
+ * Material for a decal showing `canvas`: the unlit sticker material for a flat
+ * finish, otherwise a lit PBR material with maps generated for the finish. Both
+ * are hidden by the parts of the model in front of them.
+ */
+export function createDecalMaterial(canvas: HTMLCanvasElement, appearance: DecalAppearance = {}) {
+    const finish = appearance.finish ?? 'flat'
+    const shared = {
+        transparent: true,
+        depthWrite: false,
+        depthTest: true,
+        polygonOffset: true,
+        polygonOffsetFactor: DECAL_POLYGON_OFFSET,
+        polygonOffsetUnits: DECAL_POLYGON_OFFSET,
+    }
+    if (finish === 'flat') {
+        const material = new THREE.MeshBasicMaterial({ ...shared, map: new THREE.CanvasTexture(canvas), toneMapped: false })
+        applyDecalBlending(material, appearance)
+        return material
+    }
+
+    const preset = FINISH_PRESETS[finish]
+    const map = new THREE.CanvasTexture(canvas)
+    map.colorSpace = THREE.SRGBColorSpace
+    const { normalMap, surfaceMap } = finishMaps(canvas, preset)
+    // the maps carry the actual values; these factors only scale them
+    const material = new THREE.MeshPhysicalMaterial({
+        ...shared,
+        map,
+        color: new THREE.Color().setScalar(preset.shade),
+        normalMap,
+        roughnessMap: surfaceMap,
+        metalnessMap: surfaceMap,
+        roughness: 1,
+        metalness: 1,
+        clearcoat: preset.clearcoat,
+        clearcoatRoughness: 0.1,
+    })
+    applyDecalBlending(material, appearance)
+    return material
+}
+
+// Disposes a decal material together with its artwork and generated maps
+export function disposeDecalMaterial(material: THREE.Material | THREE.Material[]) {
+    for (const m of Array.isArray(material) ? material : [material]) {
+        const maps = m as Partial<Pick<THREE.MeshPhysicalMaterial, 'map' | 'normalMap' | 'roughnessMap' | 'metalnessMap'>>
+        maps.map?.dispose()
+        maps.normalMap?.dispose()
+        maps.roughnessMap?.dispose()
+        maps.metalnessMap?.dispose()
+        m.dispose()
+    }
+}
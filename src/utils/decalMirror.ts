@@ -0,0 +1,43 @@
+// src/utils/decalMirror.ts
+import * as THREE from 'three'
+
+// Model axis a symmetry plane is normal to; the plane runs through the container's center
+export type SymmetryAxis = 'x' | 'y' | 'z'
+
+export const SYMMETRY_AXES: { value: SymmetryAxis; label: string }[] = [
+    { value: 'x', label: 'Left / right (X)' },
+    { value: 'y', label: 'Top / bottom (Y)' },
+    { value: 'z', label: 'Front / back (Z)' },
+]
+
+// Link between a decal and its mirrored twin; both sides hold one, pointing at each other
+export type DecalMirror = { twinId: string; axis: SymmetryAxis }
+
+/**
+ * World point, normal and rotation-0 orientation of the twin of a decal with
+ * the given world frame and in-plane rotation, mirrored across the container
+ * plane normal to `axis`. The reflected frame is flipped horizontally so the
+ * twin's artwork reads the right way round; its rotation turns the other way,
+ * i.e. the twin's rotationDeg is the negated original.
+ */
+export function mirrorDecalFrame(
+    frame: { center: THREE.Vector3; normal: THREE.Vector3; right: THREE.Vector3; up: THREE.Vector3 },
+    rotationDeg: number,
+    container: THREE.Object3D,
+    axis: SymmetryAxis
+) {
+    const toLocal = container.matrixWorld.clone().invert()
+    const reflect = (v: THREE.Vector3) => {
+        v[axis] = -v[axis]
+        return v
+    }
+    const point = reflect(frame.center.clone().applyMatrix4(toLocal)).applyMatrix4(container.matrixWorld)
+    const direction = (d: THREE.Vector3) => reflect(d.clone().transformDirection(toLocal)).transformDirection(container.matrixWorld)
+
+    const normal = direction(frame.normal)
+    const basis = new THREE.Matrix4().makeBasis(direction(frame.right).negate(), direction(frame.up), normal)
+    // undo the (negated) in-plane rotation to get the orientation at 0 degrees
+    const orientation = new THREE.Quaternion().setFromRotationMatrix(basis)
+        .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), THREE.MathUtils.degToRad(rotationDeg)))
+    return { point, normal, orientation }
+}
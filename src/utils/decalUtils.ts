@@ -0,0 +1,257 @@
+// src/utils/decalUtils.ts
+import * as THREE from 'three'
+import type { DecalRec, DecalState } from '../components/ModelWithDecals'
+import { useHistoryStore } from '../store/historyStore'
+import { useDesignStore } from '../store/designStore'
+import { resolveTextPath, resolveTextStyle } from './textDecal'
+import { createDecalMaterial, disposeDecalMaterial } from './decalFinish'
+
+/**
+ * Detached copy of everything needed to rebuild a decal. Returns null for
+ * records that were never anchored to a surface.
+ */
+export function captureDecalState(rec: DecalRec): DecalState | null {
+    if (!rec.hitObject || !rec.localPosition || !rec.localNormal) return null
+    return {
+        id: rec.id,
+        meta: { ...rec.meta },
+        text: rec.text,
+        font: rec.font,
+        color: rec.color,
+        fontSize: rec.fontSize,
+        textStyle: rec.textStyle && resolveTextStyle(rec.textStyle),
+        textPath: rec.textPath && resolveTextPath(rec.textPath),
+        sizeForDecal: rec.sizeForDecal,
+        heightForDecal: rec.heightForDecal,
+        flipX: rec.flipX,
+        flipY: rec.flipY,
+        finish: rec.finish,
+        opacity: rec.opacity,
+        blendMode: rec.blendMode,
+        mirror: rec.mirror && { ...rec.mirror },
+        rotationDeg: rec.rotationDeg ?? 0,
+        hitObject: rec.hitObject,
+        localPosition: rec.localPosition.clone(),
+        localNormal: rec.localNormal.clone(),
+        baseLocalRotation: rec.baseLocalRotation?.clone(),
+    }
+}
+
+export type DecalSize = { width: number; height: number }
+
+/**
+ * Width and height of a decal in model space. The height follows the canvas,
+ * which is fitted to the artwork's aspect ratio, unless it was set on its own.
+ */
+export function decalSize(rec: Pick<DecalRec, 'sizeForDecal' | 'heightForDecal' | 'canvas'>): DecalSize {
+    return {
+        width: rec.sizeForDecal,
+        height: rec.heightForDecal ?? (rec.sizeForDecal * rec.canvas.height) / rec.canvas.width,
+    }
+}
+
+/**
+ * Projector box for a decal of the given size (model space, i.e. the container's
+ * local units, so sizes don't change with zoom). The box is padded so the canvas
+ * artwork (drawn with a margin) reaches the requested size, and deep enough to
+ * wrap curved surfaces. Pass the container's world scale to get it in world units.
+ */
+export function decalBoxSize(size: DecalSize, worldScale = 1) {
+    const padding = 1.5
+    const depthPadding = 4
+    const depth = Math.max(0.01, Math.max(size.width, size.height) * 0.15)
+    return new THREE.Vector3(size.width * padding, size.height * padding, depth * depthPadding).multiplyScalar(worldScale)
+}
+
+// Mirrored copy of a canvas; returns the canvas itself when there is nothing to flip
+export function flipCanvas(canvas: HTMLCanvasElement, flipX?: boolean, flipY?: boolean) {
+    if (!flipX && !flipY) return canvas
+    const out = document.createElement('canvas')
+    out.width = canvas.width
+    out.height = canvas.height
+    const ctx = out.getContext('2d')!
+    ctx.translate(flipX ? out.width : 0, flipY ? out.height : 0)
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1)
+    ctx.drawImage(canvas, 0, 0)
+    return out
+}
+
+// The container's uniform world scale (the viewer's zoom), read from any object inside it
+export function containerScale(container: THREE.Object3D | null | undefined) {
+    return container ? container.getWorldScale(new THREE.Vector3()).x : 1
+}
+
+/**
+ * Decal center in model space (the container's local space), or null for decals
+ * that were never anchored to a surface.
+ */
+export function decalModelPosition(rec: DecalRec) {
+    const container = rec.mesh.parent?.parent
+    if (!rec.hitObject || !rec.localPosition || !container) return null
+    const world = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
+    return container.worldToLocal(world)
+}
+
+/**
+ * World-space center, axes and size of a placed decal: `right` and `up` span its
+ * artwork and `normal` points out of the surface. Null for decals that were never
+ * anchored to a surface.
+ */
+export function decalWorldFrame(rec: DecalRec) {
+    if (!rec.hitObject || !rec.localPosition || !rec.localNormal) return null
+    const center = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
+    const normal = rec.localNormal.clone().transformDirection(rec.hitObject.matrixWorld).normalize()
+    const rotation = new THREE.Quaternion()
+    if (rec.baseLocalRotation) {
+        // same orientation createDecalMesh builds the decal with
+        rec.hitObject.getWorldQuaternion(rotation).multiply(rec.baseLocalRotation)
+    } else {
+        // no saved orientation: world up as the reference
+        let tangent = new THREE.Vector3(0, 1, 0).cross(normal)
+        if (tangent.lengthSq() < 0.01) tangent = new THREE.Vector3(0, 0, 1).cross(normal)
+        tangent.normalize()
+        const bitangent = normal.clone().cross(tangent).normalize()
+        rotation.setFromRotationMatrix(new THREE.Matrix4().makeBasis(tangent, bitangent, normal))
+    }
+    rotation.multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), THREE.MathUtils.degToRad(rec.rotationDeg ?? 0)))
+    const { width, height } = decalSize(rec)
+    const scale = containerScale(rec.mesh.parent?.parent)
+    return {
+        center,
+        normal,
+        right: new THREE.Vector3(1, 0, 0).applyQuaternion(rotation),
+        up: new THREE.Vector3(0, 1, 0).applyQuaternion(rotation),
+        width: width * scale,
+        height: height * scale,
+    }
+}
+
+/**
+ * Surface of `model` under a world point, reached by a ray along -`normal` from
+ * outside the model. `orientation` (a world rotation facing along `normal`) is
+ * tilted onto the surface normal there and returned relative to the hit object,
+ * i.e. as a baseLocalRotation. Null when the ray misses the model.
+ */
+export function dropOnSurface(model: THREE.Object3D, point: THREE.Vector3, normal: THREE.Vector3, orientation?: THREE.Quaternion) {
+    const reach = new THREE.Box3().setFromObject(model).getSize(new THREE.Vector3()).length()
+    const raycaster = new THREE.Raycaster(point.clone().addScaledVector(normal, reach), normal.clone().negate())
+    const hit = raycaster.intersectObjects(model.children, true).find(h => h.face)
+    if (!hit) return null
+    const hitNormal = hit.face!.normal.clone().transformDirection(hit.object.matrixWorld).normalize()
+    const tilted = orientation && new THREE.Quaternion().setFromUnitVectors(normal, hitNormal).multiply(orientation)
+    return {
+        hitObject: hit.object,
+        point: hit.point.clone(),
+        normal: hitNormal,
+        localPosition: hit.object.worldToLocal(hit.point.clone()),
+        localNormal: hitNormal.clone().transformDirection(hit.object.matrixWorld.clone().invert()).normalize(),
+        baseLocalRotation: tilted && hit.object.getWorldQuaternion(new THREE.Quaternion()).invert().multiply(tilted),
+    }
+}
+
+// An in-plane rotation in -180–180 degrees, the rotation slider's range
+export function wrapDegrees(deg: number) {
+    return THREE.MathUtils.euclideanModulo(deg + 180, 360) - 180
+}
+
+/**
+ * Decal width on screen in pixels, for a viewport `viewportHeight` pixels tall.
+ * Measures the whole projector box, i.e. the decal's canvas, not just its artwork.
+ */
+export function decalScreenPixels(rec: DecalRec, camera: THREE.Camera, viewportHeight: number) {
+    if (!rec.hitObject || !rec.localPosition) return 0
+    const center = rec.localPosition.clone().applyMatrix4(rec.hitObject.matrixWorld)
+    const box = decalBoxSize(decalSize(rec), containerScale(rec.mesh.parent?.parent))
+    const extent = Math.max(box.x, box.y)
+    let visibleHeight: number
+    if ((camera as THREE.PerspectiveCamera).isPerspectiveCamera) {
+        const cam = camera as THREE.PerspectiveCamera
+        const distance = cam.getWorldPosition(new THREE.Vector3()).distanceTo(center)
+        visibleHeight = (2 * distance * Math.tan(THREE.MathUtils.degToRad(cam.fov) / 2)) / cam.zoom
+    } else {
+        const cam = camera as THREE.OrthographicCamera
+        visibleHeight = (cam.top - cam.bottom) / cam.zoom
+    }
+    return visibleHeight > 0 ? (extent / visibleHeight) * viewportHeight : 0
+}
+
+// Shows a redrawn canvas on the decal's existing mesh (no undo entry)
+export function swapDecalCanvas(rec: DecalRec, canvas: HTMLCanvasElement) {
+    if (rec.finish && rec.finish !== 'flat') {
+        // the finish's relief and roughness maps are generated from the artwork, so they are redone too
+        const old = rec.mesh.material
+        rec.mesh.material = createDecalMaterial(canvas, rec)
+        disposeDecalMaterial(old)
+        rec.canvas = canvas
+        return
+    }
+    const material = rec.mesh.material as THREE.MeshBasicMaterial
+    const oldMap = material.map
+    const tex = new THREE.CanvasTexture(canvas)
+    tex.colorSpace = oldMap?.colorSpace ?? THREE.SRGBColorSpace
+    material.map = tex
+    oldMap?.dispose()
+    rec.canvas = canvas
+}
+
+// alphaBounds is a full pixel scan; decal canvases are replaced, never redrawn, so cache per canvas
+const artworkBoundsCache = new WeakMap<HTMLCanvasElement, ReturnType<typeof alphaBounds>>()
+
+/**
+ * Size of a decal's artwork (its non-transparent pixels, not the padded canvas)
+ * in model space.
+ */
+export function decalArtworkSize(rec: DecalRec) {
+    if (!artworkBoundsCache.has(rec.canvas)) artworkBoundsCache.set(rec.canvas, alphaBounds(rec.canvas))
+    const bounds = artworkBoundsCache.get(rec.canvas)
+    if (!bounds) return null
+    const box = decalBoxSize(decalSize(rec))
+    return {
+        width: (bounds.width / rec.canvas.width) * box.x,
+        height: (bounds.height / rec.canvas.height) * box.y,
+    }
+}
+
+/**
+ * Pixel bounds of the non-transparent part of a canvas, or null when it is empty.
+ */
+export function alphaBounds(canvas: HTMLCanvasElement) {
+    const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+    let minX = width, minY = height, maxX = -1, maxY = -1
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!data[(y * width + x) * 4 + 3]) continue
+            minX = Math.min(minX, x)
+            maxX = Math.max(maxX, x)
+            minY = Math.min(minY, y)
+            maxY = Math.max(maxY, y)
+        }
+    }
+    if (maxX < 0) return null
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+/**
+ * Resolve once the image has finished loading (or failed), so canvases drawn
+ * from it afterwards never use the grey placeholder.
+ */
+export function waitForImage(img: HTMLImageElement | null): Promise<void> {
+    if (!img || (img.complete && img.naturalWidth)) return Promise.resolve()
+    return img.decode().catch(() => { })
+}
+
+/**
+ * Record a decal edit in the undo history. A null `before` means the decal was
+ * created by this edit, a null `after` means it was deleted.
+ */
+export function pushDecalHistory(label: string, before: DecalState | null, after: DecalState | null, key?: string) {
+    const restore = (state: DecalState) => useDesignStore.getState().decalCommand(state.id, { action: 'restore', state })
+    const remove = (state: DecalState) => useDesignStore.getState().decalCommand(state.id, { action: 'delete' })
+    if (!before && !after) return
+    useHistoryStore.getState().push({
+        label,
+        key,
+        undo: () => (before ? restore(before) : remove(after!)),
+        redo: () => (after ? restore(after) : remove(before!)),
+    })
+}
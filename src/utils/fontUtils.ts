@@ -0,0 +1,62 @@
+// src/utils/fontUtils.ts
+
+export const BUILTIN_FONTS = ['sans-serif', 'serif', 'monospace', 'cursive', 'Helvetica', 'Arial']
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2'
+
+// CSS generic families must stay unquoted in a font shorthand
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'])
+
+// A font uploaded by the user, registered with document.fonts under `family`
+export type CustomFont = {
+    family: string
+    file: File
+}
+
+// family -> registration, so every font file is only parsed once
+const registered = new Map<string, { promise: Promise<void>; ready: boolean }>()
+
+export function cssFontFamily(family: string) {
+    return GENERIC_FAMILIES.has(family) ? family : `"${family.replace(/"/g, '\\"')}"`
+}
+
+// Family name from the file name, made unique among the fonts already in use
+export function fontFamilyFromFile(file: File, taken: string[]) {
+    const base = file.name.replace(/\.(ttf|otf|woff2?)$/i, '').replace(/[_-]+/g, ' ').trim() || 'Custom font'
+    let family = base
+    for (let n = 2; taken.includes(family) || BUILTIN_FONTS.includes(family); n++) family = `${base} ${n}`
+    return family
+}
+
+/**
+ * Registers a custom font with the document. Resolves once the font can be drawn
+ * with; rejects when the file isn't a font the browser can read.
+ */
+export function loadCustomFont(font: CustomFont): Promise<void> {
+    const existing = registered.get(font.family)
+    if (existing) return existing.promise
+    const entry = { ready: false, promise: Promise.resolve() }
+    entry.promise = font.file.arrayBuffer()
+        .then(data => new FontFace(font.family, data).load())
+        .then(face => {
+            document.fonts.add(face)
+            entry.ready = true
+        })
+        .catch(err => {
+            // a later attempt (e.g. with another file) may register the family again
+            registered.delete(font.family)
+            throw err
+        })
+    registered.set(font.family, entry)
+    return entry.promise
+}
+
+/**
+ * Null when text in this family can be drawn right away, otherwise a promise for
+ * when its custom font has loaded. Families that were never registered are drawn
+ * with whatever the browser has.
+ */
+export function whenFontReady(family?: string): Promise<void> | null {
+    const entry = family ? registered.get(family) : undefined
+    return entry && !entry.ready ? entry.promise : null
+}
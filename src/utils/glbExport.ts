@@ -0,0 +1,119 @@
+// src/utils/glbExport.ts
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import type { DecalRec } from '../components/ModelWithDecals'
+import { serializeDecal, type SavedDecal } from './projectFile'
+import { captureDecalState } from './decalUtils'
+import { bakeDecals } from './decalBake'
+
+export const GLB_EXTENSION = '.glb'
+
+// userData keys (glTF node extras) used to recognise our own exports on import
+export const DECAL_EXTRAS_KEY = 'mockupDecal'
+export const BAKED_DECALS_KEY = 'mockupDecals'
+export const MODEL_ROOT_KEY = 'mockupModelRoot'
+
+export type GlbExportOptions = {
+    // paint decals into the model's textures instead of exporting decal meshes
+    bakeDecals: boolean
+    filename: string
+}
+
+/**
+ * Decal description written to glTF node extras (three's userData). The surface
+ * anchor is the same as in project files: a child-index path from the model
+ * node plus hitObject-local position/normal/orientation.
+ */
+export type DecalExtras = SavedDecal & {
+    // logo file name, for logo decals
+    assetName?: string
+    hitObjectName: string
+}
+
+export function decalExtras(rec: DecalRec, modelRoot: THREE.Object3D, logos: File[]): DecalExtras | null {
+    const state = captureDecalState(rec)
+    if (!state) return null
+    const saved = serializeDecal(state, modelRoot)
+    if (!saved) return null
+    return {
+        ...saved,
+        assetName: rec.meta.type === 'logo' ? logos[rec.meta.index]?.name : undefined,
+        hitObjectName: state.hitObject.name,
+    }
+}
+
+export function glbFilename(name: string) {
+    const base = name.trim().replace(/\.(glb|gltf)$/i, '').replace(/[\\/:*?"<>|]+/g, '-') || 'mockup'
+    return `${base}${GLB_EXTENSION}`
+}
+
+/**
+ * Deep clone that also returns, for every object in the source tree, its copy.
+ * Object3D.clone keeps child order, so the two trees line up when traversed together.
+ */
+export function cloneWithMapping(root: THREE.Object3D) {
+    const clone = root.clone(true)
+    const originals: THREE.Object3D[] = []
+    const copies: THREE.Object3D[] = []
+    root.traverse(o => originals.push(o))
+    clone.traverse(o => copies.push(o))
+    const cloneOf = new Map(originals.map((o, i) => [o, copies[i]]))
+    return { clone, cloneOf }
+}
+
+/**
+ * Copy of the product for file export: the container's model and decals at the
+ * origin and at real size in meters, without the viewer's zoom/rotation. Decals
+ * are either baked into the copy's materials (and noted on the meshes they were
+ * painted on) or kept as `decal-N` meshes carrying their DecalExtras. The live
+ * scene is not modified.
+ */
+export function cloneProduct(params: {
+    gl: THREE.WebGLRenderer
+    container: THREE.Object3D
+    modelRoot: THREE.Object3D
+    decalsGroup: THREE.Object3D | null
+    decals: DecalRec[]
+    logos: File[]
+    name: string
+    bakeDecals: boolean
+    // see ModelScale
+    metersPerUnit: number
+}) {
+    const { gl, container, modelRoot, decalsGroup, decals, logos } = params
+    const { clone, cloneOf } = cloneWithMapping(container)
+    clone.position.set(0, 0, 0)
+    clone.quaternion.identity()
+    clone.scale.setScalar(params.metersPerUnit)
+    clone.name = params.name
+    // decal anchors are paths from the model node; mark it so a re-import can find it
+    cloneOf.get(modelRoot)!.userData[MODEL_ROOT_KEY] = true
+
+    if (params.bakeDecals) {
+        bakeDecals(gl, decals).forEach((material, mesh) => {
+            const copy = cloneOf.get(mesh) as THREE.Mesh | undefined
+            if (copy) copy.material = material
+        })
+        // the decals now live in the textures; note them on the meshes they were painted on
+        decals.forEach(rec => {
+            const extras = decalExtras(rec, modelRoot, logos)
+            const copy = rec.hitObject && cloneOf.get(rec.hitObject)
+            if (!extras || !copy) return
+            copy.userData[BAKED_DECALS_KEY] = [...(copy.userData[BAKED_DECALS_KEY] ?? []), extras]
+        })
+        if (decalsGroup) cloneOf.get(decalsGroup)?.removeFromParent()
+    } else {
+        decals.forEach((rec, i) => {
+            const copy = cloneOf.get(rec.mesh)
+            if (!copy) return
+            copy.name = `decal-${i + 1}`
+            copy.userData = { [DECAL_EXTRAS_KEY]: decalExtras(rec, modelRoot, logos) }
+        })
+    }
+    return clone
+}
+
+export async function writeGLB(root: THREE.Object3D): Promise<Blob> {
+    const result = await new GLTFExporter().parseAsync(root, { binary: true })
+    return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+}
@@ -0,0 +1,99 @@
+// src/utils/glbImport.ts
+import * as THREE from 'three'
+import { DECAL_EXTRAS_KEY, MODEL_ROOT_KEY, BAKED_DECALS_KEY, type DecalExtras } from './glbExport'
+import { resolveObjectPath } from './projectFile'
+import { alphaBounds } from './decalUtils'
+
+// A decal node found in a GLB exported by exportGLB, already removed from the model
+export type ImportedDecal = {
+    extras: DecalExtras
+    hitObject: THREE.Mesh
+    // the decal's rendered canvas as stored in the GLB (upside down, glTF row order)
+    image: CanvasImageSource | null
+}
+
+/**
+ * The mesh a decal was anchored to. GLTFLoader turns a multi-material mesh into
+ * a group of single-material meshes, so when the path lands on a group the
+ * child closest to the anchor point is used.
+ */
+function resolveDecalTarget(anchor: THREE.Object3D, extras: DecalExtras): THREE.Mesh | null {
+    const target = resolveObjectPath(anchor, extras.hitObjectPath) ?? anchor.getObjectByName(extras.hitObjectName) ?? null
+    if (!target) return null
+    if ((target as THREE.Mesh).isMesh) return target as THREE.Mesh
+
+    const point = new THREE.Vector3().fromArray(extras.localPosition).applyMatrix4(target.matrixWorld)
+    let best: THREE.Mesh | null = null
+    let bestDistance = Infinity
+    target.traverse(o => {
+        if (!(o as THREE.Mesh).isMesh) return
+        const distance = new THREE.Box3().setFromObject(o).distanceToPoint(point)
+        if (distance < bestDistance) {
+            best = o as THREE.Mesh
+            bestDistance = distance
+        }
+    })
+    return best
+}
+
+/**
+ * Removes the decal nodes written by exportGLB from root and returns what is
+ * needed to rebuild them as live decals. Models that weren't exported here
+ * come back unchanged with an empty list.
+ */
+export function extractDecalNodes(root: THREE.Object3D): ImportedDecal[] {
+    let anchor: THREE.Object3D | null = null
+    const nodes: THREE.Object3D[] = []
+    root.traverse(o => {
+        if (o.userData[MODEL_ROOT_KEY] && !anchor) anchor = o
+        // markers are rewritten on the next export; keep nested re-imports unambiguous
+        delete o.userData[MODEL_ROOT_KEY]
+        if (o.userData[DECAL_EXTRAS_KEY]) nodes.push(o)
+        // baked decals are part of the texture now; the note would go stale on the next export
+        delete o.userData[BAKED_DECALS_KEY]
+    })
+    if (!nodes.length) return []
+
+    root.updateMatrixWorld(true)
+    const imported: ImportedDecal[] = []
+    nodes.forEach(node => {
+        const extras = node.userData[DECAL_EXTRAS_KEY] as DecalExtras
+        const parent = node.parent
+        node.removeFromParent()
+        // drop the exported decal group once it is empty
+        if (parent && parent !== root && !parent.children.length) parent.removeFromParent()
+
+        const hitObject = anchor && resolveDecalTarget(anchor, extras)
+        if (!hitObject) {
+            console.warn(`Skipping imported decal ${extras.id}: its mesh is not in the model`)
+            return
+        }
+        const map = ((node as THREE.Mesh).material as THREE.MeshBasicMaterial | undefined)?.map
+        imported.push({ extras, hitObject, image: (map?.image as CanvasImageSource | undefined) ?? null })
+    })
+    return imported
+}
+
+/**
+ * Turns a logo decal's exported canvas back into a logo file: flipped upright
+ * and trimmed to the artwork so makeCanvasForAsset lays it out as before.
+ */
+export async function recoverLogoFile(image: CanvasImageSource, name: string): Promise<File> {
+    const source = image as { width: number; height: number }
+    const canvas = document.createElement('canvas')
+    canvas.width = source.width
+    canvas.height = source.height
+    const ctx = canvas.getContext('2d')!
+    ctx.translate(0, canvas.height)
+    ctx.scale(1, -1)
+    ctx.drawImage(image, 0, 0)
+
+    const bounds = alphaBounds(canvas)
+    const trimmed = document.createElement('canvas')
+    trimmed.width = bounds?.width ?? 1
+    trimmed.height = bounds?.height ?? 1
+    if (bounds) trimmed.getContext('2d')!.drawImage(canvas, -bounds.x, -bounds.y)
+    const blob = await new Promise<Blob | null>(resolve => trimmed.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('Could not encode the logo image')
+    return new File([blob], name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' })
+}
@@ -0,0 +1,114 @@
+// src/utils/imageExport.ts
+import * as THREE from 'three'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+
+export type ImageExportOptions = {
+    width: number
+    height: number
+    // css color, or null for a transparent background (ignored for jpeg, which has no alpha)
+    background: string | null
+    format: ImageFormat
+    // 0..1, used by jpeg/webp only
+    quality: number
+}
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; mime: string; ext: string; alpha: boolean }> = {
+    png: { label: 'PNG', mime: 'image/png', ext: 'png', alpha: true },
+    jpeg: { label: 'JPEG', mime: 'image/jpeg', ext: 'jpg', alpha: false },
+    webp: { label: 'WebP', mime: 'image/webp', ext: 'webp', alpha: true },
+}
+
+// larger than this and the output is rendered in tiles, whatever the GPU allows
+const MAX_TILE_SIZE = 2048
+// browsers refuse to allocate 2D canvases much beyond this per side
+export const MAX_EXPORT_SIZE = 16384
+
+// camera layer for editing aids (e.g. the hidden-decal highlight); exported renders leave it out
+export const EDITOR_LAYER = 1
+
+export function isValidImageSize(o: Pick<ImageExportOptions, 'width' | 'height'>, maxSize = MAX_EXPORT_SIZE) {
+    return o.width >= 1 && o.height >= 1 && o.width <= maxSize && o.height <= maxSize
+}
+
+/**
+ * Renders the scene at an arbitrary output size. The frame is split into tiles
+ * no bigger than the GPU can draw; each tile is rendered with a camera view
+ * offset and copied onto a 2D canvas, so the result matches a single render of
+ * the full frame. The camera keeps its vertical fov; the aspect follows width/height.
+ * Objects on EDITOR_LAYER are not rendered.
+ */
+export function renderImage(params: {
+    gl: THREE.WebGLRenderer
+    scene: THREE.Scene
+    camera: THREE.Camera
+    width: number
+    height: number
+    background: string | null
+}): HTMLCanvasElement {
+    const { gl, scene, camera, background } = params
+    const width = Math.round(THREE.MathUtils.clamp(params.width, 1, MAX_EXPORT_SIZE))
+    const height = Math.round(THREE.MathUtils.clamp(params.height, 1, MAX_EXPORT_SIZE))
+
+    const out = document.createElement('canvas')
+    out.width = width
+    out.height = height
+    const ctx = out.getContext('2d')
+    if (!ctx) throw new Error(`Could not allocate a ${width}×${height} canvas`)
+
+    const cam = camera.clone() as THREE.PerspectiveCamera | THREE.OrthographicCamera
+    cam.layers.disable(EDITOR_LAYER)
+    if ((cam as THREE.PerspectiveCamera).isPerspectiveCamera) {
+        (cam as THREE.PerspectiveCamera).aspect = width / height
+    }
+
+    const maxViewport = gl.getContext().getParameter(gl.getContext().MAX_VIEWPORT_DIMS) as Int32Array
+    const tileSize = Math.min(MAX_TILE_SIZE, gl.capabilities.maxTextureSize, maxViewport[0], maxViewport[1])
+
+    const prevSize = gl.getSize(new THREE.Vector2())
+    const prevPixelRatio = gl.getPixelRatio()
+    const prevBackground = scene.background
+
+    try {
+        gl.setPixelRatio(1)
+        scene.background = background ? new THREE.Color(background) : null
+        for (let y = 0; y < height; y += tileSize) {
+            for (let x = 0; x < width; x += tileSize) {
+                const tw = Math.min(tileSize, width - x)
+                const th = Math.min(tileSize, height - y)
+                gl.setSize(tw, th, false)
+                cam.setViewOffset(width, height, x, y, tw, th)
+                gl.render(scene, cam)
+                // copy in the same task as the render, before the drawing buffer is cleared
+                ctx.drawImage(gl.domElement, 0, 0, tw, th, x, y, tw, th)
+            }
+        }
+    } finally {
+        gl.setSize(prevSize.x, prevSize.y, false)
+        gl.setPixelRatio(prevPixelRatio)
+        scene.background = prevBackground
+    }
+    return out
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<Blob> {
+    const { mime, alpha } = IMAGE_FORMATS[format]
+    let source = canvas
+    if (!alpha) {
+        // flatten onto white; an encoder without alpha would turn transparent pixels black
+        source = document.createElement('canvas')
+        source.width = canvas.width
+        source.height = canvas.height
+        const ctx = source.getContext('2d')!
+        ctx.fillStyle = '#ffffff'
+        ctx.fillRect(0, 0, source.width, source.height)
+        ctx.drawImage(canvas, 0, 0)
+    }
+    return new Promise((resolve, reject) => {
+        source.toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${format} image`))),
+            mime,
+            quality
+        )
+    })
+}
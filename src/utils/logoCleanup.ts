@@ -0,0 +1,126 @@
+// src/utils/logoCleanup.ts
+import { alphaBounds } from './decalUtils'
+
+// Image processing applied to an uploaded logo before it is drawn onto decals
+export type LogoCleanup = {
+    // color keyed out to transparency, and how far (0–100) a pixel may be from it
+    background: { color: string; tolerance: number } | null
+    // crop to the visible pixels
+    trim: boolean
+    // single ink color replacing every visible pixel
+    oneInk: string | null
+    invert: boolean
+    // -100–100, 0 leaves the image as is
+    brightness: number
+    contrast: number
+}
+
+export const DEFAULT_LOGO_CLEANUP: LogoCleanup = {
+    background: null,
+    trim: false,
+    oneInk: null,
+    invert: false,
+    brightness: 0,
+    contrast: 0,
+}
+
+export const DEFAULT_BACKGROUND_TOLERANCE = 15
+
+// SVGs have no pixel size of their own; bitmaps keep theirs up to the largest decal canvas
+const VECTOR_CLEANUP_SIZE = 2048
+const MAX_CLEANUP_SIZE = 4096
+// distance past the tolerance over which pixels fade back in, so edges stay smooth
+const EDGE_FEATHER = 6
+
+export function resolveLogoCleanup(partial?: Partial<LogoCleanup> | null): LogoCleanup {
+    const cleanup = { ...DEFAULT_LOGO_CLEANUP, ...partial }
+    return { ...cleanup, background: cleanup.background && { ...cleanup.background } }
+}
+
+export function isDefaultCleanup(cleanup: LogoCleanup) {
+    return !cleanup.background && !cleanup.trim && !cleanup.oneInk && !cleanup.invert && !cleanup.brightness && !cleanup.contrast
+}
+
+// Longer side, in pixels, that a logo is processed at
+export function cleanupSize(img: HTMLImageElement, vector: boolean) {
+    return vector ? VECTOR_CLEANUP_SIZE : Math.min(MAX_CLEANUP_SIZE, Math.max(img.naturalWidth, img.naturalHeight))
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+    const n = parseInt(hex.replace('#', ''), 16)
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+}
+
+function drawScaled(img: HTMLImageElement, size: number) {
+    const scale = size / Math.max(img.naturalWidth, img.naturalHeight)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale))
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale))
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height)
+    return canvas
+}
+
+/**
+ * Most likely background color of a logo: the average of its four corner pixels.
+ */
+export function guessBackgroundColor(img: HTMLImageElement) {
+    const canvas = drawScaled(img, 64)
+    const ctx = canvas.getContext('2d')!
+    const corners = [[0, 0], [canvas.width - 1, 0], [0, canvas.height - 1], [canvas.width - 1, canvas.height - 1]]
+    const sum = [0, 0, 0]
+    for (const [x, y] of corners) {
+        const [r, g, b] = ctx.getImageData(x, y, 1, 1).data
+        sum[0] += r
+        sum[1] += g
+        sum[2] += b
+    }
+    return `#${sum.map(v => Math.round(v / 4).toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Logo redrawn with `size` pixels on its longer side and processed: the
+ * background keyed out on the original colors first, then brightness/contrast,
+ * invert and one-ink, and finally the trim.
+ */
+export function cleanupLogo(img: HTMLImageElement, cleanup: LogoCleanup, size: number): HTMLCanvasElement {
+    const canvas = drawScaled(img, size)
+    const ctx = canvas.getContext('2d')!
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    const { data } = image
+
+    const key = cleanup.background && hexToRgb(cleanup.background.color)
+    // 0–100 tolerance to a distance in RGB space
+    const maxDistance = Math.sqrt(3) * 255
+    const tolerance = cleanup.background ? (cleanup.background.tolerance / 100) * maxDistance : 0
+    const feather = (EDGE_FEATHER / 100) * maxDistance
+    const contrast = ((100 + cleanup.contrast) / 100) ** 2
+    const brightness = cleanup.brightness * 2.55
+    const ink = cleanup.oneInk && hexToRgb(cleanup.oneInk)
+
+    for (let i = 0; i < data.length; i += 4) {
+        if (!data[i + 3]) continue
+        if (key) {
+            const distance = Math.hypot(data[i] - key[0], data[i + 1] - key[1], data[i + 2] - key[2])
+            if (distance <= tolerance) {
+                data[i + 3] = 0
+                continue
+            }
+            if (distance < tolerance + feather) data[i + 3] *= (distance - tolerance) / feather
+        }
+        for (let c = 0; c < 3; c++) {
+            let v = (data[i + c] - 128) * contrast + 128 + brightness
+            if (cleanup.invert) v = 255 - v
+            data[i + c] = ink ? ink[c] : v
+        }
+    }
+    ctx.putImageData(image, 0, 0)
+
+    if (!cleanup.trim) return canvas
+    const bounds = alphaBounds(canvas)
+    if (!bounds) return canvas
+    const trimmed = document.createElement('canvas')
+    trimmed.width = bounds.width
+    trimmed.height = bounds.height
+    trimmed.getContext('2d')!.drawImage(canvas, -bounds.x, -bounds.y)
+    return trimmed
+}
@@ -0,0 +1,57 @@
+// src/utils/logoRaster.ts
+
+// canvas sizes (longer side) offered for bitmap logos; their pixels don't get sharper beyond the file's own
+export const LOGO_RESOLUTIONS = [512, 1024, 2048, 4096]
+export const DEFAULT_LOGO_RESOLUTION = 512
+
+// longer side of text decal canvases
+export const TEXT_CANVAS_SIZE = 1024
+
+// SVG logos are redrawn between these as the decal grows or shrinks on screen
+const MIN_VECTOR_RESOLUTION = 256
+const MAX_VECTOR_RESOLUTION = 4096
+
+export function isVectorLogo(file?: File) {
+    return !!file && (file.type === 'image/svg+xml' || /\.svg$/i.test(file.name))
+}
+
+/**
+ * Canvas size for a vector logo covering `pixels` on screen: the next power of
+ * two, within the GPU's texture limit.
+ */
+export function vectorResolution(pixels: number, maxTextureSize = MAX_VECTOR_RESOLUTION) {
+    const max = Math.min(MAX_VECTOR_RESOLUTION, maxTextureSize)
+    const size = 2 ** Math.ceil(Math.log2(Math.max(1, pixels)))
+    return Math.min(max, Math.max(MIN_VECTOR_RESOLUTION, size))
+}
+
+// A loaded logo image, or the canvas its clean-up produced (see logoCleanup)
+export type LogoSource = HTMLImageElement | HTMLCanvasElement
+
+function sourceSize(source: LogoSource) {
+    return source instanceof HTMLImageElement
+        ? { width: source.naturalWidth, height: source.naturalHeight }
+        : { width: source.width, height: source.height }
+}
+
+// Canvas fitted to the logo's aspect ratio, with `resolution` pixels on its longer side
+export function logoCanvasSize(source: LogoSource, resolution: number) {
+    const { width, height } = sourceSize(source)
+    const aspect = width / height
+    return aspect >= 1
+        ? { width: resolution, height: Math.max(1, Math.round(resolution / aspect)) }
+        : { width: Math.max(1, Math.round(resolution * aspect)), height: resolution }
+}
+
+/**
+ * Draws a loaded logo centered on its canvas, leaving a margin. SVGs are
+ * rasterized by the browser at the drawn size, so they stay sharp at any canvas size.
+ */
+export function drawLogo(canvas: HTMLCanvasElement, source: LogoSource) {
+    const ctx = canvas.getContext('2d')!
+    const size = sourceSize(source)
+    const scale = Math.min(canvas.width / size.width, canvas.height / size.height) * 0.85
+    const w = size.width * scale
+    const h = size.height * scale
+    ctx.drawImage(source, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h)
+}
@@ -36,6 +36,15 @@ export function collectMaterials(root: THREE.Object3D): MaterialGroup[] {
     return Array.from(map.values())
 }
 
+/**
+ * Set a material's base color (tints textured materials) and flag it for update.
+ */
+export function setMaterialColor(mat: THREE.Material & { color?: THREE.Color | undefined }, hex: string) {
+    if (mat.color) mat.color.set(hex)
+    else mat.color = new THREE.Color(hex)
+    mat.needsUpdate = true
+}
+
 /**
  * Sample a representative color for a material.
  * If material has color property (no texture), use that.
@@ -0,0 +1,323 @@
+// src/utils/projectFile.ts
+import * as THREE from 'three'
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate'
+import type { AssetRef, DecalRec, DecalState } from '../components/ModelWithDecals'
+import { collectMaterials, setMaterialColor } from './materialUtils'
+import { captureDecalState } from './decalUtils'
+import type { CustomFont } from './fontUtils'
+import type { DecalBlendMode, DecalFinish } from './decalFinish'
+import type { DecalMirror } from './decalMirror'
+import { resolveLogoCleanup, type LogoCleanup } from './logoCleanup'
+import { resolveTextPath, resolveTextStyle, type TextPath, type TextStyle } from './textDecal'
+import type { LengthUnit, ModelScale } from './units'
+
+export const PROJECT_FILE_VERSION = 1
+export const PROJECT_FILE_EXTENSION = '.mockup'
+
+type Vec3Tuple = [number, number, number]
+type QuatTuple = [number, number, number, number]
+
+// A decal as written to project.json. Vectors are stored in hitObject-local space
+// and hitObject itself as a child-index path from the model root.
+export type SavedDecal = {
+    id: string
+    meta: AssetRef
+    text?: string
+    font?: string
+    color?: string
+    fontSize?: number
+    textStyle?: TextStyle
+    textPath?: TextPath
+    sizeForDecal: number
+    // absent while the height follows the artwork's aspect ratio
+    heightForDecal?: number
+    flipX?: boolean
+    flipY?: boolean
+    finish?: DecalFinish
+    opacity?: number
+    blendMode?: DecalBlendMode
+    mirror?: DecalMirror
+    rotationDeg: number
+    hitObjectPath: number[]
+    localPosition: Vec3Tuple
+    localNormal: Vec3Tuple
+    baseLocalRotation?: QuatTuple
+}
+
+export type SavedMaterialColor = {
+    index: number // position in collectMaterials() order
+    name: string
+    color: string
+}
+
+// Camera position and model container transform at save time
+export type SavedView = {
+    cameraPosition: Vec3Tuple
+    containerPosition: Vec3Tuple
+    containerQuaternion: QuatTuple
+    containerScale: Vec3Tuple
+}
+
+// Calibration and display unit; decal sizes in the manifest are in model space
+export type SavedUnits = ModelScale & {
+    display: LengthUnit
+}
+
+export type ProjectManifest = {
+    version: number
+    model: { name: string; path: string }
+    // cleanup is absent for logos used as uploaded
+    logos: { name: string; type: string; path: string; cleanup?: LogoCleanup }[]
+    texts: string[]
+    fonts?: { family: string; name: string; type: string; path: string }[]
+    materialColors: SavedMaterialColor[]
+    decals: SavedDecal[]
+    view?: SavedView
+    units?: SavedUnits
+}
+
+export type ProjectBundle = {
+    manifest: ProjectManifest
+    model: Blob
+    logos: File[]
+    fonts: CustomFont[]
+}
+
+/**
+ * Child-index path from root down to obj, or null when obj is not under root.
+ */
+export function getObjectPath(root: THREE.Object3D, obj: THREE.Object3D): number[] | null {
+    const path: number[] = []
+    let cur: THREE.Object3D | null = obj
+    while (cur && cur !== root) {
+        const parent: THREE.Object3D | null = cur.parent
+        if (!parent) return null
+        path.unshift(parent.children.indexOf(cur))
+        cur = parent
+    }
+    return cur === root ? path : null
+}
+
+export function resolveObjectPath(root: THREE.Object3D, path: number[]): THREE.Object3D | null {
+    let cur: THREE.Object3D | undefined = root
+    for (const i of path) {
+        cur = cur?.children[i]
+        if (!cur) return null
+    }
+    return cur ?? null
+}
+
+export function serializeDecal(state: DecalState, modelRoot: THREE.Object3D): SavedDecal | null {
+    const hitObjectPath = getObjectPath(modelRoot, state.hitObject)
+    if (!hitObjectPath) return null
+    return {
+        id: state.id,
+        meta: { ...state.meta },
+        text: state.text,
+        font: state.font,
+        color: state.color,
+        fontSize: state.fontSize,
+        textStyle: state.textStyle,
+        textPath: state.textPath,
+        sizeForDecal: state.sizeForDecal,
+        heightForDecal: state.heightForDecal,
+        flipX: state.flipX,
+        flipY: state.flipY,
+        finish: state.finish,
+        opacity: state.opacity,
+        blendMode: state.blendMode,
+        mirror: state.mirror,
+        rotationDeg: state.rotationDeg ?? 0,
+        hitObjectPath,
+        localPosition: state.localPosition.toArray() as Vec3Tuple,
+        localNormal: state.localNormal.toArray() as Vec3Tuple,
+        baseLocalRotation: state.baseLocalRotation?.toArray() as QuatTuple | undefined,
+    }
+}
+
+export function deserializeDecal(saved: SavedDecal, modelRoot: THREE.Object3D): DecalState | null {
+    const hitObject = resolveObjectPath(modelRoot, saved.hitObjectPath)
+    if (!hitObject) return null
+    return {
+        id: saved.id,
+        meta: { ...saved.meta },
+        text: saved.text,
+        font: saved.font,
+        color: saved.color,
+        fontSize: saved.fontSize,
+        textStyle: saved.textStyle && resolveTextStyle(saved.textStyle),
+        textPath: saved.textPath && resolveTextPath(saved.textPath),
+        sizeForDecal: saved.sizeForDecal,
+        heightForDecal: saved.heightForDecal,
+        flipX: saved.flipX,
+        flipY: saved.flipY,
+        finish: saved.finish,
+        opacity: saved.opacity,
+        blendMode: saved.blendMode,
+        mirror: saved.mirror && { ...saved.mirror },
+        rotationDeg: saved.rotationDeg,
+        hitObject,
+        localPosition: new THREE.Vector3().fromArray(saved.localPosition),
+        localNormal: new THREE.Vector3().fromArray(saved.localNormal),
+        baseLocalRotation: saved.baseLocalRotation ? new THREE.Quaternion().fromArray(saved.baseLocalRotation) : undefined,
+    }
+}
+
+/**
+ * Current color of every material group, keyed by its collectMaterials() index.
+ */
+export function captureMaterialColors(root: THREE.Object3D): SavedMaterialColor[] {
+    return collectMaterials(root)
+        .map((g, index) => ({ index, name: g.name, color: g.material.color?.isColor ? `#${g.material.color.getHexString()}` : '' }))
+        .filter(c => c.color)
+}
+
+export function applyMaterialColors(root: THREE.Object3D, colors: SavedMaterialColor[]) {
+    const groups = collectMaterials(root)
+    colors.forEach(c => {
+        const g = groups[c.index]
+        if (g) setMaterialColor(g.material, c.color)
+    })
+}
+
+export function captureView(camera: THREE.Camera, container: THREE.Object3D): SavedView {
+    return {
+        cameraPosition: camera.position.toArray() as Vec3Tuple,
+        containerPosition: container.position.toArray() as Vec3Tuple,
+        containerQuaternion: container.quaternion.toArray() as QuatTuple,
+        containerScale: container.scale.toArray() as Vec3Tuple,
+    }
+}
+
+export function applyView(view: SavedView, camera: THREE.Camera, container: THREE.Object3D) {
+    container.position.fromArray(view.containerPosition)
+    container.quaternion.fromArray(view.containerQuaternion)
+    container.scale.fromArray(view.containerScale)
+    container.updateMatrixWorld(true)
+    // orbit target is always the origin
+    camera.position.fromArray(view.cameraPosition)
+    camera.lookAt(0, 0, 0)
+}
+
+/**
+ * Bundle manifest + GLB + logo and font files into a single zip-based .mockup file.
+ */
+export async function writeProjectFile(bundle: ProjectBundle): Promise<Blob> {
+    const files: Zippable = {
+        'project.json': strToU8(JSON.stringify(bundle.manifest, null, 2)),
+        // binary assets are already compressed, so store them as-is
+        [bundle.manifest.model.path]: [new Uint8Array(await bundle.model.arrayBuffer()), { level: 0 }],
+    }
+    for (let i = 0; i < bundle.logos.length; i++) {
+        files[bundle.manifest.logos[i].path] = [new Uint8Array(await bundle.logos[i].arrayBuffer()), { level: 0 }]
+    }
+    for (let i = 0; i < bundle.fonts.length; i++) {
+        files[bundle.manifest.fonts![i].path] = [new Uint8Array(await bundle.fonts[i].file.arrayBuffer()), { level: 0 }]
+    }
+    const data = zipSync(files)
+    return new Blob([data as BlobPart], { type: 'application/zip' })
+}
+
+export async function readProjectFile(file: Blob): Promise<ProjectBundle> {
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()))
+    const json = entries['project.json']
+    if (!json) throw new Error('Not a mockup project file (project.json missing)')
+
+    const manifest = JSON.parse(strFromU8(json)) as ProjectManifest
+    if (typeof manifest.version !== 'number' || manifest.version > PROJECT_FILE_VERSION) {
+        throw new Error(`Unsupported project file version: ${manifest.version}`)
+    }
+
+    const modelData = entries[manifest.model.path]
+    if (!modelData) throw new Error(`Project file is missing ${manifest.model.path}`)
+    const model = new Blob([modelData as BlobPart], { type: 'model/gltf-binary' })
+
+    const logos = manifest.logos.map(l => {
+        const data = entries[l.path]
+        if (!data) throw new Error(`Project file is missing ${l.path}`)
+        return new File([data as BlobPart], l.name, { type: l.type })
+    })
+
+    // projects saved before custom fonts have no font list
+    const fonts = (manifest.fonts ?? []).map(f => {
+        const data = entries[f.path]
+        if (!data) throw new Error(`Project file is missing ${f.path}`)
+        return { family: f.family, file: new File([data as BlobPart], f.name, { type: f.type }) }
+    })
+
+    return { manifest, model, logos, fonts }
+}
+
+export function buildManifest(params: {
+    modelName: string
+    logos: File[]
+    logoCleanups: (LogoCleanup | null)[]
+    texts: string[]
+    fonts: CustomFont[]
+    modelRoot: THREE.Object3D
+    decals: DecalState[]
+    view?: SavedView
+    units?: SavedUnits
+}): ProjectManifest {
+    const { modelName, logos, logoCleanups, texts, fonts, modelRoot, decals, view, units } = params
+    return {
+        version: PROJECT_FILE_VERSION,
+        model: { name: modelName, path: 'model.glb' },
+        logos: logos.map((f, i) => ({
+            name: f.name,
+            type: f.type,
+            path: `logos/${i}-${f.name}`,
+            cleanup: logoCleanups[i] ? resolveLogoCleanup(logoCleanups[i]) : undefined,
+        })),
+        texts: [...texts],
+        fonts: fonts.map((f, i) => ({ family: f.family, name: f.file.name, type: f.file.type, path: `fonts/${i}-${f.file.name}` })),
+        materialColors: captureMaterialColors(modelRoot),
+        decals: decals
+            .map(d => serializeDecal(d, modelRoot))
+            .filter((d): d is SavedDecal => !!d),
+        view,
+        units,
+    }
+}
+
+/**
+ * Snapshot the live design (model, assets, decals, colors and view) as a project bundle.
+ */
+export async function createProjectBundle(params: {
+    glbUrl: string
+    modelName: string
+    logos: File[]
+    logoCleanups: (LogoCleanup | null)[]
+    texts: string[]
+    fonts: CustomFont[]
+    decals: DecalRec[]
+    modelRoot: THREE.Object3D
+    camera: THREE.Camera
+    container: THREE.Object3D | null
+    units?: SavedUnits
+}): Promise<ProjectBundle> {
+    const { glbUrl, modelName, logos, logoCleanups, texts, fonts, decals, modelRoot, camera, container, units } = params
+    const model = await fetchModelBlob(glbUrl)
+    const manifest = buildManifest({
+        modelName,
+        logos,
+        logoCleanups,
+        texts,
+        fonts,
+        modelRoot,
+        decals: decals.map(captureDecalState).filter((d): d is DecalState => !!d),
+        view: container ? captureView(camera, container) : undefined,
+        units,
+    })
+    return { manifest, model, logos, fonts }
+}
+
+// the model blob never changes for a given object URL, so autosave doesn't refetch it
+let modelBlobCache: { url: string; blob: Blob } | null = null
+
+export async function fetchModelBlob(url: string): Promise<Blob> {
+    if (modelBlobCache?.url !== url) {
+        modelBlobCache = { url, blob: await (await fetch(url)).blob() }
+    }
+    return modelBlobCache.blob
+}
@@ -0,0 +1,114 @@
+// src/utils/sessionDb.ts
+import type { ProjectBundle, ProjectManifest } from './projectFile'
+import type { CustomFont } from './fontUtils'
+
+const DB_NAME = 'mockup-visualizer'
+const DB_VERSION = 1
+// small records listed on startup; the heavy blobs live in their own store
+const SESSIONS_STORE = 'sessions'
+const FILES_STORE = 'sessionFiles'
+
+// how many autosaved sessions to keep, newest first
+export const MAX_SESSIONS = 10
+
+export type SessionSummary = {
+    id: string
+    name: string
+    updatedAt: number
+    decalCount: number
+    logoCount: number
+    textCount: number
+}
+
+type SessionRow = SessionSummary & { manifest: ProjectManifest }
+// fonts is missing on sessions saved before custom fonts
+type SessionFilesRow = { id: string; model: Blob; logos: File[]; fonts?: CustomFont[] }
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION)
+            req.onupgradeneeded = () => {
+                const db = req.result
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' })
+                if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'id' })
+            }
+            req.onsuccess = () => resolve(req.result)
+            req.onerror = () => {
+                dbPromise = null
+                reject(req.error)
+            }
+        })
+    }
+    return dbPromise
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
+
+/**
+ * Newest sessions first, without their blobs.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openDb()
+    const rows = await promisify<SessionRow[]>(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll())
+    return rows
+        .map(r => ({ id: r.id, name: r.name, updatedAt: r.updatedAt, decalCount: r.decalCount, logoCount: r.logoCount, textCount: r.textCount }))
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function saveSession(id: string, name: string, bundle: ProjectBundle) {
+    const db = await openDb()
+    const row: SessionRow = {
+        id,
+        name,
+        updatedAt: Date.now(),
+        decalCount: bundle.manifest.decals.length,
+        logoCount: bundle.logos.length,
+        textCount: bundle.manifest.texts.length,
+        manifest: bundle.manifest,
+    }
+    const files: SessionFilesRow = { id, model: bundle.model, logos: bundle.logos, fonts: bundle.fonts }
+
+    const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite')
+    tx.objectStore(SESSIONS_STORE).put(row)
+    tx.objectStore(FILES_STORE).put(files)
+    await transactionDone(tx)
+
+    // drop the oldest sessions beyond the limit
+    const sessions = await listSessions()
+    await Promise.all(sessions.slice(MAX_SESSIONS).map(s => deleteSession(s.id)))
+}
+
+export async function loadSession(id: string): Promise<ProjectBundle | null> {
+    const db = await openDb()
+    const tx = db.transaction([SESSIONS_STORE, FILES_STORE])
+    const [row, files] = await Promise.all([
+        promisify<SessionRow | undefined>(tx.objectStore(SESSIONS_STORE).get(id)),
+        promisify<SessionFilesRow | undefined>(tx.objectStore(FILES_STORE).get(id)),
+    ])
+    if (!row || !files) return null
+    return { manifest: row.manifest, model: files.model, logos: files.logos, fonts: files.fonts ?? [] }
+}
+
+export async function deleteSession(id: string) {
+    const db = await openDb()
+    const tx = db.transaction([SESSIONS_STORE, FILES_STORE], 'readwrite')
+    tx.objectStore(SESSIONS_STORE).delete(id)
+    tx.objectStore(FILES_STORE).delete(id)
+    await transactionDone(tx)
+}
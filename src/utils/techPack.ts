@@ -0,0 +1,418 @@
+// src/utils/techPack.ts
+import * as THREE from 'three'
+import { jsPDF } from 'jspdf'
+import type { DecalRec } from '../components/ModelWithDecals'
+import type { MaterialGroup } from './materialUtils'
+import { alphaBounds, decalArtworkSize } from './decalUtils'
+import { renderImage } from './imageExport'
+import { orbitCamera, type ViewAngle } from './viewExport'
+import { formatSize, LENGTH_UNITS, toUnit, type LengthUnit, type ModelScale } from './units'
+import { fontStyleLabel, resolveTextStyle } from './textDecal'
+import { blendModeLabel, finishLabel } from './decalFinish'
+
+export type TechPackPageSize = 'a4' | 'letter'
+
+export const TECH_PACK_PAGE_SIZES: Record<TechPackPageSize, string> = {
+    a4: 'A4',
+    letter: 'US Letter',
+}
+
+export type TechPackOptions = {
+    // shown in the page header, usually the model's file name
+    title: string
+    filename: string
+    pageSize: TechPackPageSize
+    views: ViewAngle[]
+    // append every logo used by a decal at its original resolution
+    includeArtwork: boolean
+}
+
+// everything below is in mm; pages are landscape
+const MARGIN = 14
+const HEADER_HEIGHT = 12
+const ROW_HEIGHT = 16
+const VIEW_RENDER_WIDTH = 1600
+const VIEW_RENDER_HEIGHT = 1200
+// resolution SVG artwork is rasterized at, on its long side
+const VECTOR_ARTWORK_SIZE = 4096
+const PRINT_DPI = 300
+
+type Column = { title: string; width: number }
+
+const DECAL_COLUMNS: Column[] = [
+    { title: '#', width: 8 },
+    { title: 'Preview', width: 18 },
+    { title: 'Type', width: 14 },
+    { title: 'Content', width: 40 },
+    { title: 'Font', width: 28 },
+    { title: 'Color', width: 26 },
+    { title: 'Size (W × H)', width: 58 },
+    { title: 'Rotation', width: 18 },
+    { title: 'Finish', width: 24 },
+    { title: 'Mesh', width: 35 },
+]
+
+const MATERIAL_COLUMNS: Column[] = [
+    { title: '#', width: 8 },
+    { title: 'Color', width: 18 },
+    { title: 'Material', width: 70 },
+    { title: 'Hex', width: 28 },
+    { title: 'Meshes', width: 145 },
+]
+
+export function techPackFilename(name: string) {
+    const base = name.trim().replace(/\.pdf$/i, '').replace(/[\\/:*?"<>|]+/g, '-') || 'tech-pack'
+    return `${base}.pdf`
+}
+
+// The chosen unit first, the other one in brackets: production may work in either
+function formatBothUnits(width: number, height: number, unit: LengthUnit) {
+    const other: LengthUnit = unit === 'cm' ? 'in' : 'cm'
+    return `${formatSize(width, height, unit)} (${formatSize(width, height, other)})`
+}
+
+// The artwork part of a decal canvas, for the table's preview column
+function cropToArtwork(canvas: HTMLCanvasElement) {
+    const bounds = alphaBounds(canvas)
+    if (!bounds) return null
+    const out = document.createElement('canvas')
+    out.width = bounds.width
+    out.height = bounds.height
+    out.getContext('2d')!.drawImage(canvas, -bounds.x, -bounds.y)
+    return out
+}
+
+function loadImage(file: File) {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.src = url
+    return img.decode().then(() => img).finally(() => URL.revokeObjectURL(url))
+}
+
+/**
+ * A logo file as addImage input at its original resolution. PNG and JPEG files
+ * are embedded as-is; other formats are redrawn to PNG, SVGs at VECTOR_ARTWORK_SIZE.
+ */
+async function artworkImage(file: File) {
+    const img = await loadImage(file)
+    const isVector = file.type === 'image/svg+xml'
+    let width = img.naturalWidth || VECTOR_ARTWORK_SIZE
+    let height = img.naturalHeight || VECTOR_ARTWORK_SIZE
+    if (file.type === 'image/png' || file.type === 'image/jpeg') {
+        const data = new Uint8Array(await file.arrayBuffer())
+        return { data, format: file.type === 'image/png' ? 'PNG' : 'JPEG', width, height, isVector }
+    }
+    if (isVector) {
+        const scale = VECTOR_ARTWORK_SIZE / Math.max(width, height)
+        width = Math.round(width * scale)
+        height = Math.round(height * scale)
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    canvas.getContext('2d')!.drawImage(img, 0, 0, width, height)
+    return { data: canvas, format: 'PNG', width, height, isVector }
+}
+
+// Largest w × h with the given aspect that fits in the box
+function fit(width: number, height: number, boxW: number, boxH: number) {
+    const scale = Math.min(boxW / width, boxH / height)
+    return { w: width * scale, h: height * scale }
+}
+
+class TechPackWriter {
+    doc: jsPDF
+    pageW: number
+    pageH: number
+    y = 0
+    private title: string
+    private section = ''
+    // jsPDF starts with an empty first page
+    private started = false
+
+    constructor(options: TechPackOptions) {
+        this.doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: options.pageSize })
+        this.pageW = this.doc.internal.pageSize.getWidth()
+        this.pageH = this.doc.internal.pageSize.getHeight()
+        this.title = options.title
+    }
+
+    get contentWidth() {
+        return this.pageW - MARGIN * 2
+    }
+
+    get bottom() {
+        return this.pageH - MARGIN
+    }
+
+    // Starts a page with the running header
+    startPage(section: string) {
+        if (this.started) this.doc.addPage()
+        this.started = true
+        this.section = section
+        const { doc } = this
+        doc.setFont('helvetica', 'bold')
+        doc.setFontSize(14)
+        doc.setTextColor(20)
+        doc.text(section, MARGIN, MARGIN + 5)
+        doc.setFont('helvetica', 'normal')
+        doc.setFontSize(9)
+        doc.setTextColor(100)
+        doc.text(this.title, this.pageW - MARGIN, MARGIN + 5, { align: 'right' })
+        doc.setDrawColor(180)
+        doc.line(MARGIN, MARGIN + 8, this.pageW - MARGIN, MARGIN + 8)
+        this.y = MARGIN + HEADER_HEIGHT
+    }
+
+    tableHeader(columns: Column[]) {
+        const { doc } = this
+        doc.setFillColor(235, 235, 235)
+        doc.rect(MARGIN, this.y, this.contentWidth, 7, 'F')
+        doc.setFont('helvetica', 'bold')
+        doc.setFontSize(8)
+        doc.setTextColor(40)
+        let x = MARGIN
+        columns.forEach(col => {
+            doc.text(col.title, x + 1.5, this.y + 4.8)
+            x += col.width
+        })
+        doc.setFont('helvetica', 'normal')
+        this.y += 7
+    }
+
+    // Moves to a new page (repeating the table header) when a row would not fit
+    ensureRow(columns: Column[]) {
+        if (this.y + ROW_HEIGHT <= this.bottom) return
+        this.startPage(this.section)
+        this.tableHeader(columns)
+    }
+
+    cell(text: string, x: number, width: number) {
+        const lines = this.doc.splitTextToSize(text, width - 3) as string[]
+        // at most three lines fit a row
+        const shown = lines.length > 3 ? [...lines.slice(0, 2), `${lines[2].slice(0, -1)}…`] : lines
+        this.doc.text(shown, x + 1.5, this.y + 5)
+    }
+
+    rowDivider() {
+        this.doc.setDrawColor(220)
+        this.doc.line(MARGIN, this.y + ROW_HEIGHT, this.pageW - MARGIN, this.y + ROW_HEIGHT)
+        this.y += ROW_HEIGHT
+    }
+
+    swatch(hex: string, x: number, width: number) {
+        const color = new THREE.Color(hex)
+        this.doc.setFillColor(color.r * 255, color.g * 255, color.b * 255)
+        this.doc.setDrawColor(160)
+        this.doc.rect(x + 1.5, this.y + 2, width - 3, ROW_HEIGHT - 4, 'FD')
+    }
+
+    pageNumbers() {
+        const { doc } = this
+        const count = doc.getNumberOfPages()
+        const date = new Date().toLocaleDateString()
+        doc.setFontSize(8)
+        doc.setTextColor(120)
+        for (let i = 1; i <= count; i++) {
+            doc.setPage(i)
+            doc.text(date, MARGIN, this.pageH - MARGIN / 2)
+            doc.text(`Page ${i} of ${count}`, this.pageW - MARGIN, this.pageH - MARGIN / 2, { align: 'right' })
+        }
+    }
+}
+
+function writeViews(w: TechPackWriter, params: { gl: THREE.WebGLRenderer; scene: THREE.Scene; camera: THREE.Camera; container: THREE.Object3D; views: ViewAngle[] }) {
+    const { gl, scene, camera, container, views } = params
+    // two rows of up to three views per page
+    const columns = Math.min(3, views.length)
+    const gap = 6
+    const labelHeight = 6
+    const cellW = (w.contentWidth - gap * (columns - 1)) / columns
+    const rows = views.length > columns ? 2 : 1
+    const cellH = (w.bottom - MARGIN - HEADER_HEIGHT - gap * (rows - 1)) / rows - labelHeight
+
+    views.forEach((view, i) => {
+        const slot = i % (columns * rows)
+        if (slot === 0) w.startPage('Views')
+        const canvas = renderImage({
+            gl,
+            scene,
+            camera: orbitCamera(camera, container, view),
+            width: VIEW_RENDER_WIDTH,
+            height: VIEW_RENDER_HEIGHT,
+            background: '#ffffff',
+        })
+        const { w: imgW, h: imgH } = fit(canvas.width, canvas.height, cellW, cellH)
+        const x = MARGIN + (slot % columns) * (cellW + gap)
+        const y = MARGIN + HEADER_HEIGHT + Math.floor(slot / columns) * (cellH + labelHeight + gap)
+        w.doc.addImage(canvas.toDataURL('image/jpeg', 0.9), 'JPEG', x + (cellW - imgW) / 2, y + (cellH - imgH) / 2, imgW, imgH)
+        w.doc.setFontSize(9)
+        w.doc.setTextColor(40)
+        w.doc.text(view.label, x + cellW / 2, y + cellH + 4, { align: 'center' })
+    })
+}
+
+function writeDecalTable(w: TechPackWriter, decals: DecalRec[], logos: File[], modelScale: ModelScale, modelSize: THREE.Vector3 | null, unit: LengthUnit) {
+    w.startPage('Decals')
+    if (modelSize) {
+        const { digits, label } = LENGTH_UNITS[unit]
+        const dims = modelSize.toArray().map(v => toUnit(v * modelScale.metersPerUnit, unit).toFixed(digits)).join(' × ')
+        w.doc.setFontSize(9)
+        w.doc.setTextColor(40)
+        w.doc.text(`Model size (W × H × D): ${dims} ${label}${modelScale.calibrated ? ' (calibrated)' : ''}`, MARGIN, w.y + 3)
+        w.y += 7
+    }
+    if (!decals.length) {
+        w.doc.setFontSize(10)
+        w.doc.text('No decals placed.', MARGIN, w.y + 5)
+        return
+    }
+    w.tableHeader(DECAL_COLUMNS)
+
+    decals.forEach((rec, i) => {
+        w.ensureRow(DECAL_COLUMNS)
+        const isText = rec.meta.type === 'text'
+        const size = decalArtworkSize(rec)
+        const style = resolveTextStyle(rec.textStyle)
+        const fill = style.gradient ? style.gradient.from : (rec.color ?? '#000000')
+        const colors = [
+            style.gradient ? `${style.gradient.from} to ${style.gradient.to}` : fill,
+            style.stroke ? `outline ${style.stroke.color}` : '',
+        ].filter(Boolean).join('\n')
+        const values = [
+            String(i + 1),
+            '',
+            isText ? 'Text' : 'Logo',
+            isText ? (rec.text ?? '') : (logos[rec.meta.index]?.name ?? `Logo ${rec.meta.index + 1}`),
+            isText ? `${rec.font ?? 'sans-serif'} ${fontStyleLabel(style)}` : '—',
+            isText ? colors : '—',
+            size ? formatBothUnits(size.width * modelScale.metersPerUnit, size.height * modelScale.metersPerUnit, unit) : '—',
+            `${Math.round(rec.rotationDeg ?? 0)}°`,
+            [
+                finishLabel(rec.finish),
+                rec.blendMode && rec.blendMode !== 'normal' ? blendModeLabel(rec.blendMode) : '',
+                rec.opacity !== undefined && rec.opacity < 1 ? `${Math.round(rec.opacity * 100)}% opacity` : '',
+            ].filter(Boolean).join('\n'),
+            rec.hitObject?.name || '(unnamed mesh)',
+        ]
+
+        w.doc.setFontSize(8)
+        w.doc.setTextColor(30)
+        let x = MARGIN
+        DECAL_COLUMNS.forEach((col, c) => {
+            if (c === 1) {
+                const preview = cropToArtwork(rec.canvas)
+                if (preview) {
+                    const { w: pw, h: ph } = fit(preview.width, preview.height, col.width - 3, ROW_HEIGHT - 3)
+                    w.doc.addImage(preview, 'PNG', x + (col.width - pw) / 2, w.y + (ROW_HEIGHT - ph) / 2, pw, ph)
+                }
+            } else if (c === 5 && isText) {
+                w.swatch(fill, x, 8)
+                w.cell(values[c], x + 7, col.width - 7)
+            } else {
+                w.cell(values[c], x, col.width)
+            }
+            x += col.width
+        })
+        w.rowDivider()
+    })
+
+    w.doc.setFontSize(7)
+    w.doc.setTextColor(110)
+    const basis = modelScale.calibrated ? 'the calibrated model size' : 'the model file\'s own units'
+    w.doc.text(`Sizes are the printed artwork, measured from ${basis}.`, MARGIN, Math.min(w.y + 5, w.bottom))
+}
+
+function writeMaterialTable(w: TechPackWriter, groups: MaterialGroup[]) {
+    w.startPage('Materials')
+    if (!groups.length) {
+        w.doc.setFontSize(10)
+        w.doc.text('The model has no materials.', MARGIN, w.y + 5)
+        return
+    }
+    w.tableHeader(MATERIAL_COLUMNS)
+
+    groups.forEach((group, i) => {
+        w.ensureRow(MATERIAL_COLUMNS)
+        const hex = group.sampleColor ?? (group.material.color ? `#${group.material.color.getHexString()}` : null)
+        w.doc.setFontSize(8)
+        w.doc.setTextColor(30)
+        let x = MARGIN
+        MATERIAL_COLUMNS.forEach((col, c) => {
+            if (c === 1) {
+                if (hex) w.swatch(hex, x, col.width)
+            } else {
+                const meshes = group.meshes.map(m => m.name || '(unnamed)').join(', ')
+                w.cell([String(i + 1), '', group.name, hex ?? '—', meshes][c], x, col.width)
+            }
+            x += col.width
+        })
+        w.rowDivider()
+    })
+}
+
+async function writeArtwork(w: TechPackWriter, files: File[], unit: LengthUnit) {
+    for (const file of files) {
+        w.startPage('Artwork')
+        let image: Awaited<ReturnType<typeof artworkImage>>
+        try {
+            image = await artworkImage(file)
+        } catch (err) {
+            console.warn(`Tech pack: could not read logo ${file.name}`, err)
+            w.doc.setFontSize(10)
+            w.doc.text(`${file.name}: the file could not be read.`, MARGIN, w.y + 5)
+            continue
+        }
+
+        const captionHeight = 12
+        const { w: imgW, h: imgH } = fit(image.width, image.height, w.contentWidth, w.bottom - w.y - captionHeight)
+        const x = MARGIN + (w.contentWidth - imgW) / 2
+        // light backdrop so white artwork stays visible
+        w.doc.setFillColor(242, 242, 242)
+        w.doc.rect(x, w.y, imgW, imgH, 'F')
+        w.doc.addImage(image.data, image.format, x, w.y, imgW, imgH, undefined, 'NONE')
+
+        const printMeters = (px: number) => (px / PRINT_DPI) * LENGTH_UNITS.in.meters
+        const details = image.isVector
+            ? `${file.name} — vector artwork (rasterized at ${image.width} × ${image.height} px)`
+            : `${file.name} — ${image.width} × ${image.height} px, prints up to ${formatSize(printMeters(image.width), printMeters(image.height), unit)} at ${PRINT_DPI} DPI`
+        w.doc.setFontSize(9)
+        w.doc.setTextColor(40)
+        w.doc.text(details, MARGIN, w.y + imgH + 7)
+    }
+}
+
+/**
+ * Builds the production spec sheet: rendered views, a table of every decal with
+ * its printed size, the material colors, and (optionally) the logo artwork at
+ * full resolution, one logo per page.
+ */
+export async function buildTechPack(params: {
+    gl: THREE.WebGLRenderer
+    scene: THREE.Scene
+    camera: THREE.Camera
+    container: THREE.Object3D
+    decals: DecalRec[]
+    logos: File[]
+    materialGroups: MaterialGroup[]
+    modelScale: ModelScale
+    // model bounding box in model space
+    modelSize: THREE.Vector3 | null
+    unit: LengthUnit
+    options: TechPackOptions
+}): Promise<Blob> {
+    const { gl, scene, camera, container, decals, logos, materialGroups, modelScale, modelSize, unit, options } = params
+    const w = new TechPackWriter(options)
+
+    if (options.views.length) writeViews(w, { gl, scene, camera, container, views: options.views })
+    writeDecalTable(w, decals, logos, modelScale, modelSize, unit)
+    writeMaterialTable(w, materialGroups)
+
+    if (options.includeArtwork) {
+        const used = [...new Set(decals.filter(d => d.meta.type === 'logo').map(d => d.meta.index))]
+        await writeArtwork(w, used.map(i => logos[i]).filter(Boolean), unit)
+    }
+
+    w.pageNumbers()
+    return w.doc.output('blob')
+}
@@ -0,0 +1,365 @@
+// src/utils/textDecal.ts
+import { cssFontFamily } from './fontUtils'
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+/**
+ * Typography of a text decal beyond its font family, color and size. Lengths are
+ * canvas pixels at the decal's font size, so they scale with it.
+ */
+export type TextStyle = {
+    // how lines of a multi-line text line up with each other
+    align: TextAlign
+    letterSpacing: number
+    // multiple of the font size
+    lineHeight: number
+    weight: number
+    italic: boolean
+    stroke: { color: string; width: number } | null
+    shadow: { color: string; blur: number; offsetX: number; offsetY: number } | null
+    // replaces the flat color; angle in degrees, 0 = left to right
+    gradient: { from: string; to: string; angle: number } | null
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+    align: 'center',
+    letterSpacing: 0,
+    lineHeight: 1.2,
+    weight: 700,
+    italic: false,
+    stroke: null,
+    shadow: null,
+    gradient: null,
+}
+
+export type TextPathMode = 'straight' | 'arcUp' | 'arcDown' | 'circle' | 'wave' | 'bezier'
+
+/**
+ * The curve a text decal's lines follow. Every mode's parameters are kept so
+ * switching modes back and forth doesn't lose them; lengths are canvas pixels
+ * at the decal's font size, like TextStyle.
+ */
+export type TextPath = {
+    mode: TextPathMode
+    // arcs and circle
+    radius: number
+    // circle: where the middle of the text sits, degrees clockwise from the top
+    startAngle: number
+    amplitude: number
+    wavelength: number
+    // bezier handles; the curve runs from (-1, 0) to (1, 0) scaled to the text width
+    control1: [number, number]
+    control2: [number, number]
+}
+
+export const DEFAULT_TEXT_PATH: TextPath = {
+    mode: 'straight',
+    radius: 200,
+    startAngle: 0,
+    amplitude: 20,
+    wavelength: 200,
+    control1: [-0.4, -0.6],
+    control2: [0.4, 0.6],
+}
+
+export const TEXT_PATH_MODES: { value: TextPathMode; label: string }[] = [
+    { value: 'straight', label: 'Straight' },
+    { value: 'arcUp', label: 'Arc up' },
+    { value: 'arcDown', label: 'Arc down' },
+    { value: 'circle', label: 'Circle' },
+    { value: 'wave', label: 'Wave' },
+    { value: 'bezier', label: 'Custom curve' },
+]
+
+export const FONT_WEIGHTS: { value: number; label: string }[] = [
+    { value: 300, label: 'Light' },
+    { value: 400, label: 'Regular' },
+    { value: 700, label: 'Bold' },
+    { value: 900, label: 'Black' },
+]
+
+// e.g. "Bold Italic", for specs and labels
+export function fontStyleLabel(style: TextStyle) {
+    const weight = FONT_WEIGHTS.find(w => w.value === style.weight)?.label ?? String(style.weight)
+    return style.italic ? `${weight} Italic` : weight
+}
+
+// margin around the text on its canvas, as a fraction of the longer side
+const CANVAS_MARGIN = 0.03
+
+// Older saves and decals without a style get the defaults; nested objects are copied
+export function resolveTextStyle(style?: Partial<TextStyle>): TextStyle {
+    const merged = { ...DEFAULT_TEXT_STYLE, ...style }
+    return {
+        ...merged,
+        stroke: merged.stroke && { ...merged.stroke },
+        shadow: merged.shadow && { ...merged.shadow },
+        gradient: merged.gradient && { ...merged.gradient },
+    }
+}
+
+export function resolveTextPath(path?: Partial<TextPath>): TextPath {
+    const merged = { ...DEFAULT_TEXT_PATH, ...path }
+    return { ...merged, control1: [...merged.control1], control2: [...merged.control2] }
+}
+
+function supportsLetterSpacing(ctx: CanvasRenderingContext2D) {
+    return 'letterSpacing' in ctx
+}
+
+function measureLine(ctx: CanvasRenderingContext2D, line: string, spacing: number) {
+    if (!spacing || supportsLetterSpacing(ctx)) return ctx.measureText(line).width
+    // manual spacing: per-glyph advance plus the gap between glyphs
+    return [...line].reduce((w, ch) => w + ctx.measureText(ch).width, 0) + spacing * Math.max(0, [...line].length - 1)
+}
+
+function drawLine(ctx: CanvasRenderingContext2D, line: string, x: number, y: number, spacing: number, mode: 'fill' | 'stroke') {
+    const draw = (s: string, px: number) => (mode === 'fill' ? ctx.fillText(s, px, y) : ctx.strokeText(s, px, y))
+    if (!spacing || supportsLetterSpacing(ctx)) {
+        draw(line, x)
+        return
+    }
+    let cursor = x
+    for (const ch of line) {
+        draw(ch, cursor)
+        cursor += ctx.measureText(ch).width + spacing
+    }
+}
+
+type Bounds = { minX: number; minY: number; maxX: number; maxY: number }
+
+// Laid-out text: its extent in layout space and a way to draw it there
+type TextLayout = {
+    bounds: Bounds
+    draw: (ctx: CanvasRenderingContext2D, mode: 'fill' | 'stroke') => void
+}
+
+const alignFactor = (align: TextAlign) => (align === 'left' ? 0 : align === 'right' ? 1 : 0.5)
+
+function straightLayout(ctx: CanvasRenderingContext2D, lines: string[], style: TextStyle, lineHeight: number): TextLayout {
+    const widths = lines.map(l => measureLine(ctx, l, style.letterSpacing))
+    const blockW = Math.max(1, ...widths)
+    const blockH = lineHeight * lines.length
+    return {
+        bounds: { minX: -blockW / 2, minY: -blockH / 2, maxX: blockW / 2, maxY: blockH / 2 },
+        draw: (c, mode) => lines.forEach((l, i) => {
+            const x = -blockW / 2 + (blockW - widths[i]) * alignFactor(style.align)
+            drawLine(c, l, x, -blockH / 2 + lineHeight * (i + 0.5), style.letterSpacing, mode)
+        }),
+    }
+}
+
+const PATH_SAMPLES = 256
+
+// The path for text of the given width, as points in reading order
+function pathPoints(path: TextPath, width: number): [number, number][] {
+    const points: [number, number][] = []
+    const half = width / 2
+    for (let k = 0; k <= PATH_SAMPLES; k++) {
+        const t = k / PATH_SAMPLES
+        switch (path.mode) {
+            case 'arcUp':
+            case 'arcDown': {
+                const span = Math.min(Math.PI * 2, width / path.radius)
+                const a = -span / 2 + span * t
+                const bow = path.radius * (1 - Math.cos(a))
+                points.push([path.radius * Math.sin(a), path.mode === 'arcUp' ? bow : -bow])
+                break
+            }
+            case 'circle': {
+                // clockwise, with the middle of the path at startAngle
+                const a = (path.startAngle * Math.PI) / 180 - Math.PI + Math.PI * 2 * t
+                points.push([path.radius * Math.sin(a), -path.radius * Math.cos(a)])
+                break
+            }
+            case 'wave': {
+                const x = -half + width * t
+                points.push([x, path.amplitude * Math.sin((Math.PI * 2 * x) / Math.max(1, path.wavelength))])
+                break
+            }
+            default: {
+                // cubic bezier from (-1, 0) to (1, 0) through the two handles
+                const u = 1 - t
+                const [c1x, c1y] = path.control1
+                const [c2x, c2y] = path.control2
+                const x = -u * u * u + 3 * u * u * t * c1x + 3 * u * t * t * c2x + t * t * t
+                const y = 3 * u * u * t * c1y + 3 * u * t * t * c2y
+                points.push([x * half, y * half])
+            }
+        }
+    }
+    return points
+}
+
+// Position and direction at distance s along a polyline, extrapolated past its ends
+function pathSampler(points: [number, number][]) {
+    const lengths = [0]
+    for (let i = 1; i < points.length; i++) {
+        lengths.push(lengths[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]))
+    }
+    const total = lengths[lengths.length - 1]
+    const sample = (s: number) => {
+        let i = 1
+        while (i < points.length - 1 && lengths[i] < s) i++
+        const [x0, y0] = points[i - 1]
+        const [x1, y1] = points[i]
+        const seg = lengths[i] - lengths[i - 1] || 1
+        const t = (s - lengths[i - 1]) / seg
+        return { x: x0 + (x1 - x0) * t, y: y0 + (y1 - y0) * t, angle: Math.atan2(y1 - y0, x1 - x0) }
+    }
+    return { total, sample }
+}
+
+// Moves every point along the path's "up" side (left of the reading direction)
+function offsetPoints(points: [number, number][], distance: number): [number, number][] {
+    if (!distance) return points
+    return points.map(([x, y], i) => {
+        const [ax, ay] = points[Math.max(0, i - 1)]
+        const [bx, by] = points[Math.min(points.length - 1, i + 1)]
+        const len = Math.hypot(bx - ax, by - ay) || 1
+        return [x + ((by - ay) / len) * distance, y - ((bx - ax) / len) * distance]
+    })
+}
+
+// Glyph by glyph along the path; each line follows its own copy of the path, stacked along the normal
+function pathLayout(ctx: CanvasRenderingContext2D, lines: string[], style: TextStyle, path: TextPath, fontSize: number, lineHeight: number): TextLayout {
+    const glyphWidths = lines.map(l => [...l].map(ch => ctx.measureText(ch).width))
+    const lineWidths = glyphWidths.map(ws => ws.reduce((a, b) => a + b, 0) + style.letterSpacing * Math.max(0, ws.length - 1))
+    const blockW = Math.max(1, ...lineWidths)
+    const base = pathPoints(path, blockW)
+
+    const glyphs: { ch: string; x: number; y: number; angle: number }[] = []
+    lines.forEach((line, i) => {
+        const { total, sample } = pathSampler(offsetPoints(base, ((lines.length - 1) / 2 - i) * lineHeight))
+        let cursor = (total - blockW) / 2 + (blockW - lineWidths[i]) * alignFactor(style.align)
+        ;[...line].forEach((ch, j) => {
+            const w = glyphWidths[i][j]
+            glyphs.push({ ch, ...sample(cursor + w / 2) })
+            cursor += w + style.letterSpacing
+        })
+    })
+
+    // glyph boxes are rotated, so pad each center by the larger half-extent
+    const pad = fontSize * 0.6
+    const bounds = glyphs.reduce<Bounds>(
+        (b, g) => ({ minX: Math.min(b.minX, g.x - pad), minY: Math.min(b.minY, g.y - pad), maxX: Math.max(b.maxX, g.x + pad), maxY: Math.max(b.maxY, g.y + pad) }),
+        { minX: -1, minY: -1, maxX: 1, maxY: 1 },
+    )
+    return {
+        bounds,
+        draw: (c, mode) => glyphs.forEach(g => {
+            c.save()
+            c.translate(g.x, g.y)
+            c.rotate(g.angle)
+            if (mode === 'fill') c.fillText(g.ch, 0, 0)
+            else c.strokeText(g.ch, 0, 0)
+            c.restore()
+        }),
+    }
+}
+
+/**
+ * Renders a (possibly multi-line) text, straight or along a path, onto a canvas
+ * fitted to it: the text block plus its outline, shadow and a small margin,
+ * scaled so the longer side is `maxSize` pixels.
+ */
+export function renderTextDecal(params: {
+    text: string
+    font: string
+    color: string
+    fontSize: number
+    style?: Partial<TextStyle>
+    path?: Partial<TextPath>
+}, maxSize: number) {
+    const { text, font, color, fontSize } = params
+    const style = resolveTextStyle(params.style)
+    const path = resolveTextPath(params.path)
+    const curved = path.mode !== 'straight'
+    const lines = text.split('\n')
+    const lineHeight = fontSize * style.lineHeight
+
+    const setup = (ctx: CanvasRenderingContext2D) => {
+        ctx.font = `${style.italic ? 'italic ' : ''}${style.weight} ${fontSize}px ${cssFontFamily(font)}`
+        // glyphs on a path are spaced by hand
+        if (supportsLetterSpacing(ctx)) ctx.letterSpacing = curved ? '0px' : `${style.letterSpacing}px`
+        ctx.textBaseline = 'middle'
+        ctx.textAlign = curved ? 'center' : 'left'
+    }
+
+    const measure = document.createElement('canvas').getContext('2d')!
+    setup(measure)
+    const layout = curved
+        ? pathLayout(measure, lines, style, path, fontSize, lineHeight)
+        : straightLayout(measure, lines, style, lineHeight)
+    const { minX, minY, maxX, maxY } = layout.bounds
+    const strokeWidth = style.stroke?.width ?? 0
+
+    // room for the outline and the shadow on the side it falls
+    const shadow = style.shadow
+    const pad = {
+        left: strokeWidth / 2 + (shadow ? shadow.blur + Math.max(0, -shadow.offsetX) : 0),
+        right: strokeWidth / 2 + (shadow ? shadow.blur + Math.max(0, shadow.offsetX) : 0),
+        top: strokeWidth / 2 + (shadow ? shadow.blur + Math.max(0, -shadow.offsetY) : 0),
+        bottom: strokeWidth / 2 + (shadow ? shadow.blur + Math.max(0, shadow.offsetY) : 0),
+    }
+    const contentW = maxX - minX + pad.left + pad.right
+    const contentH = maxY - minY + pad.top + pad.bottom
+    const margin = Math.max(contentW, contentH) * CANVAS_MARGIN
+    const fullW = contentW + margin * 2
+    const fullH = contentH + margin * 2
+    const fit = maxSize / Math.max(fullW, fullH)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(fullW * fit))
+    canvas.height = Math.max(1, Math.round(fullH * fit))
+    const makeLayer = () => {
+        const layer = document.createElement('canvas')
+        layer.width = canvas.width
+        layer.height = canvas.height
+        const ctx = layer.getContext('2d')!
+        setup(ctx)
+        ctx.scale(fit, fit)
+        ctx.translate(margin + pad.left - minX, margin + pad.top - minY)
+        return ctx
+    }
+
+    const fillCtx = makeLayer()
+    fillCtx.fillStyle = color
+    layout.draw(fillCtx, 'fill')
+    if (style.gradient) {
+        // painted over the finished fill so rotated glyphs share one gradient
+        const rad = (style.gradient.angle * Math.PI) / 180
+        const cx = (minX + maxX) / 2
+        const cy = (minY + maxY) / 2
+        const dx = (Math.cos(rad) * (maxX - minX + strokeWidth)) / 2
+        const dy = (Math.sin(rad) * (maxY - minY + strokeWidth)) / 2
+        const gradient = fillCtx.createLinearGradient(cx - dx, cy - dy, cx + dx, cy + dy)
+        gradient.addColorStop(0, style.gradient.from)
+        gradient.addColorStop(1, style.gradient.to)
+        fillCtx.globalCompositeOperation = 'source-in'
+        fillCtx.fillStyle = gradient
+        fillCtx.fillRect(minX - strokeWidth, minY - strokeWidth, maxX - minX + strokeWidth * 2, maxY - minY + strokeWidth * 2)
+    }
+
+    // stroke underneath the fill so the outline grows outward only
+    const ctx = makeLayer()
+    if (style.stroke && style.stroke.width > 0) {
+        ctx.strokeStyle = style.stroke.color
+        ctx.lineWidth = style.stroke.width
+        ctx.lineJoin = 'round'
+        layout.draw(ctx, 'stroke')
+    }
+    ctx.resetTransform()
+    ctx.drawImage(fillCtx.canvas, 0, 0)
+
+    // the shadow is cast by the finished text, so stroke and fill don't each add one
+    const out = canvas.getContext('2d')!
+    if (shadow) {
+        out.shadowColor = shadow.color
+        out.shadowBlur = shadow.blur * fit
+        out.shadowOffsetX = shadow.offsetX * fit
+        out.shadowOffsetY = shadow.offsetY * fit
+    }
+    out.drawImage(ctx.canvas, 0, 0)
+    return canvas
+}
@@ -0,0 +1,169 @@
+// src/utils/turntableExport.ts
+import * as THREE from 'three'
+import { applyPalette, GIFEncoder, quantize } from 'gifenc'
+import { renderImage } from './imageExport'
+
+export type TurntableFormat = 'webm' | 'gif'
+
+export type TurntableOptions = {
+    format: TurntableFormat
+    width: number
+    height: number
+    // css color, or null for transparent (gif only; webm is always flattened onto a color)
+    background: string | null
+    fps: number
+    // seconds for one full turn
+    duration: number
+    // 1 = counter-clockwise seen from above, -1 = clockwise
+    direction: 1 | -1
+}
+
+export const TURNTABLE_FORMATS: Record<TurntableFormat, { label: string; ext: string; alpha: boolean }> = {
+    webm: { label: 'WebM', ext: 'webm', alpha: false },
+    gif: { label: 'GIF', ext: 'gif', alpha: true },
+}
+
+export const MAX_TURNTABLE_SIZE = 2048
+// browsers clamp shorter gif frame delays (20ms is the usual floor)
+export const MAX_GIF_FPS = 50
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+const WEBM_BITS_PER_PIXEL = 0.15
+
+export type TurntableProgress = (done: number, total: number) => void
+
+function nextTask() {
+    return new Promise((resolve) => setTimeout(resolve))
+}
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export function turntableFrameCount(options: Pick<TurntableOptions, 'fps' | 'duration'>) {
+    return Math.max(1, Math.round(options.fps * options.duration))
+}
+
+/**
+ * Spins the container one full turn around the world Y axis, yielding one
+ * rendered frame per step. The last frame stops one step short of 360° so the
+ * animation loops without a repeated frame. The container's rotation is put
+ * back when the generator finishes or is abandoned.
+ */
+function* renderTurntableFrames(params: {
+    gl: THREE.WebGLRenderer
+    scene: THREE.Scene
+    camera: THREE.Camera
+    container: THREE.Object3D
+    options: TurntableOptions
+}): Generator<HTMLCanvasElement> {
+    const { gl, scene, camera, container, options } = params
+    const count = turntableFrameCount(options)
+    const start = container.quaternion.clone()
+    const step = new THREE.Quaternion()
+    const axis = new THREE.Vector3(0, 1, 0)
+
+    try {
+        for (let i = 0; i < count; i++) {
+            step.setFromAxisAngle(axis, (options.direction * Math.PI * 2 * i) / count)
+            container.quaternion.copy(start).premultiply(step)
+            container.updateMatrixWorld(true)
+            yield renderImage({
+                gl,
+                scene,
+                camera,
+                width: options.width,
+                height: options.height,
+                background: options.background,
+            })
+        }
+    } finally {
+        container.quaternion.copy(start)
+        container.updateMatrixWorld(true)
+    }
+}
+
+/**
+ * Records the frames with MediaRecorder. The recorder is paused while each
+ * frame renders and resumed for exactly one frame interval, so the video keeps
+ * its frame rate however long rendering takes.
+ */
+async function encodeWebM(frames: Iterable<HTMLCanvasElement>, options: TurntableOptions, onProgress?: TurntableProgress) {
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_MIME_TYPES.find((t) => MediaRecorder.isTypeSupported(t))
+    if (!mimeType) throw new Error('WebM recording is not supported in this browser')
+
+    const canvas = document.createElement('canvas')
+    canvas.width = options.width
+    canvas.height = options.height
+    const ctx = canvas.getContext('2d')!
+    const stream = canvas.captureStream(0)
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+    const recorder = new MediaRecorder(stream, {
+        mimeType,
+        videoBitsPerSecond: Math.round(options.width * options.height * options.fps * WEBM_BITS_PER_PIXEL),
+    })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (e) => {
+        if (e.data.size) chunks.push(e.data)
+    }
+    const stopped = new Promise((resolve) => (recorder.onstop = resolve))
+
+    const total = turntableFrameCount(options)
+    const interval = 1000 / options.fps
+    let done = 0
+    recorder.start()
+    recorder.pause()
+    try {
+        for (const frame of frames) {
+            ctx.fillStyle = options.background ?? '#ffffff'
+            ctx.fillRect(0, 0, canvas.width, canvas.height)
+            ctx.drawImage(frame, 0, 0)
+            recorder.resume()
+            track.requestFrame()
+            await sleep(interval)
+            recorder.pause()
+            onProgress?.(++done, total)
+        }
+    } finally {
+        recorder.stop()
+        track.stop()
+    }
+    await stopped
+    return new Blob(chunks, { type: 'video/webm' })
+}
+
+async function encodeGif(frames: Iterable<HTMLCanvasElement>, options: TurntableOptions, onProgress?: TurntableProgress) {
+    const gif = GIFEncoder()
+    const transparent = options.background === null
+    const format = transparent ? 'rgba4444' : 'rgb565'
+    const delay = 1000 / Math.min(options.fps, MAX_GIF_FPS)
+
+    const total = turntableFrameCount(options)
+    let done = 0
+    for (const frame of frames) {
+        const { data } = frame.getContext('2d')!.getImageData(0, 0, frame.width, frame.height)
+        // one palette per frame: the model's shading changes as it turns
+        const palette = quantize(data, 256, { format, oneBitAlpha: transparent })
+        const index = applyPalette(data, palette, format)
+        const transparentIndex = transparent ? Math.max(0, palette.findIndex((c) => c[3] === 0)) : 0
+        gif.writeFrame(index, frame.width, frame.height, { palette, delay, transparent, transparentIndex })
+        onProgress?.(++done, total)
+        // keep the page responsive between frames
+        await nextTask()
+    }
+    gif.finish()
+    return new Blob([gif.bytes() as BlobPart], { type: 'image/gif' })
+}
+
+export async function renderTurntable(params: {
+    gl: THREE.WebGLRenderer
+    scene: THREE.Scene
+    camera: THREE.Camera
+    container: THREE.Object3D
+    options: TurntableOptions
+    onProgress?: TurntableProgress
+}): Promise<Blob> {
+    const { options, onProgress } = params
+    const frames = renderTurntableFrames(params)
+    return options.format === 'webm' ? encodeWebM(frames, options, onProgress) : encodeGif(frames, options, onProgress)
+}
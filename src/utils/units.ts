@@ -0,0 +1,49 @@
+// src/utils/units.ts
+
+export type LengthUnit = 'cm' | 'in'
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; meters: number; digits: number; step: number }> = {
+    cm: { label: 'cm', meters: 0.01, digits: 1, step: 0.1 },
+    in: { label: 'in', meters: 0.0254, digits: 2, step: 0.05 },
+}
+
+/**
+ * How model space maps to the real world. Model space is the container's local
+ * space: the viewer normalizes every model to the same size, so one unit there
+ * is `metersPerUnit` meters of the actual product. Until the user calibrates it,
+ * it is derived from the file itself, whose units glTF defines as meters.
+ */
+export type ModelScale = {
+    metersPerUnit: number
+    calibrated: boolean
+}
+
+export type ModelAxis = 'x' | 'y' | 'z'
+
+export const MODEL_AXES: Record<ModelAxis, string> = {
+    x: 'Width',
+    y: 'Height',
+    z: 'Depth',
+}
+
+export function toUnit(meters: number, unit: LengthUnit) {
+    return meters / LENGTH_UNITS[unit].meters
+}
+
+export function fromUnit(value: number, unit: LengthUnit) {
+    return value * LENGTH_UNITS[unit].meters
+}
+
+// Rounded to the unit's display precision, for number inputs
+export function roundToUnit(meters: number, unit: LengthUnit) {
+    return Number(toUnit(meters, unit).toFixed(LENGTH_UNITS[unit].digits))
+}
+
+export function formatLength(meters: number, unit: LengthUnit) {
+    return `${toUnit(meters, unit).toFixed(LENGTH_UNITS[unit].digits)} ${LENGTH_UNITS[unit].label}`
+}
+
+export function formatSize(width: number, height: number, unit: LengthUnit) {
+    const { digits, label } = LENGTH_UNITS[unit]
+    return `${toUnit(width, unit).toFixed(digits)} × ${toUnit(height, unit).toFixed(digits)} ${label}`
+}
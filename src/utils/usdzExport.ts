@@ -0,0 +1,243 @@
+// src/utils/usdzExport.ts
+import * as THREE from 'three'
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js'
+import * as WebGLTextureUtils from 'three/examples/jsm/utils/WebGLTextureUtils.js'
+
+export const USDZ_EXTENSION = '.usdz'
+// textures are written as PNG and fully decoded by Quick Look; bigger ones are downscaled
+export const USDZ_MAX_TEXTURE_SIZE = 2048
+
+export type UsdzExportOptions = {
+    // paint decals into the model's textures instead of exporting decal meshes
+    bakeDecals: boolean
+    filename: string
+}
+
+// Maps USDZExporter writes into the UsdPreviewSurface; anything else on a material is dropped
+const EXPORTED_MAPS = [
+    'map',
+    'emissiveMap',
+    'normalMap',
+    'aoMap',
+    'roughnessMap',
+    'metalnessMap',
+    'alphaMap',
+    'clearcoatMap',
+    'clearcoatRoughnessMap',
+] as const
+const DROPPED_MAPS = ['lightMap', 'bumpMap', 'displacementMap', 'specularMap', 'envMap'] as const
+
+type MapKey = (typeof EXPORTED_MAPS)[number] | (typeof DROPPED_MAPS)[number]
+// the fields read across material types
+type LooseMaterial = THREE.Material &
+    Partial<Record<MapKey, THREE.Texture | null>> & { color?: unknown; emissive?: unknown; shininess?: number }
+
+export function usdzFilename(name: string) {
+    const base = name.trim().replace(/\.(usdz|glb|gltf)$/i, '').replace(/[\\/:*?"<>|]+/g, '-') || 'mockup'
+    return `${base}${USDZ_EXTENSION}`
+}
+
+function label(material: THREE.Material) {
+    return `"${material.name || material.type}"`
+}
+
+function isCanvasImage(image: unknown) {
+    return (
+        (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) ||
+        (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement) ||
+        (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas) ||
+        (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap)
+    )
+}
+
+/**
+ * Material as USDZExporter can write it: a MeshStandardMaterial (or physical)
+ * with only textures it can encode. Basic/Lambert/Phong are converted; anything
+ * else becomes a plain standard material in its color. Returns the input when
+ * nothing had to change.
+ */
+function toUsdzMaterial(source: THREE.Material, warn: (message: string) => void, silent: boolean): THREE.MeshStandardMaterial {
+    const src = source as LooseMaterial
+    let material: LooseMaterial
+
+    if ((source as THREE.MeshStandardMaterial).isMeshStandardMaterial) {
+        material = src
+    } else {
+        const standard = new THREE.MeshStandardMaterial({
+            name: source.name,
+            color: src.color instanceof THREE.Color ? src.color : 0xffffff,
+            map: src.map ?? null,
+            alphaMap: src.alphaMap ?? null,
+            aoMap: src.aoMap ?? null,
+            opacity: source.opacity,
+            transparent: source.transparent,
+            alphaTest: source.alphaTest,
+            side: source.side,
+            metalness: 0,
+            roughness: 1,
+        })
+        if (src.emissive instanceof THREE.Color) {
+            standard.emissive.copy(src.emissive)
+            standard.emissiveMap = src.emissiveMap ?? null
+        }
+        if (src.normalMap) standard.normalMap = src.normalMap
+        // rough match for a Phong highlight
+        if (typeof src.shininess === 'number') standard.roughness = THREE.MathUtils.clamp(1 - Math.sqrt(src.shininess / 100), 0.05, 1)
+        material = standard
+
+        if (!silent) {
+            if ((source as THREE.MeshBasicMaterial).isMeshBasicMaterial) {
+                warn(`${label(source)} is unlit; it is exported as a lit material and will look darker in AR.`)
+            } else if (source instanceof THREE.MeshLambertMaterial || source instanceof THREE.MeshPhongMaterial) {
+                warn(`${label(source)} (${source.type}) was converted to a PBR material; its shading is approximated.`)
+            } else {
+                warn(`${label(source)} (${source.type}) cannot be represented in USDZ and is exported as a plain color.`)
+            }
+        }
+    }
+
+    const copy = (): LooseMaterial => {
+        if (material === src) material = source.clone() as LooseMaterial
+        return material
+    }
+
+    DROPPED_MAPS.forEach(key => {
+        if (!material[key]) return
+        warn(`${label(source)}: its ${key} is not supported in USDZ and was left out.`)
+        copy()[key] = null
+    })
+
+    EXPORTED_MAPS.forEach(key => {
+        const texture = material[key] as THREE.Texture | null | undefined
+        if (!texture) return
+        const image = texture.image as { width?: number; height?: number } | undefined
+        if (!(texture as THREE.CompressedTexture).isCompressedTexture && !isCanvasImage(image)) {
+            warn(`${label(source)}: its ${key} is not an image USDZ can store (e.g. a data or video texture) and was left out.`)
+            copy()[key] = null
+            return
+        }
+        if (image && Math.max(image.width ?? 0, image.height ?? 0) > USDZ_MAX_TEXTURE_SIZE) {
+            warn(`${label(source)}: its ${key} (${image.width}×${image.height}) is downscaled to ${USDZ_MAX_TEXTURE_SIZE}px.`)
+        }
+        if (texture.rotation || texture.offset.x || texture.offset.y || texture.repeat.x !== 1 || texture.repeat.y !== 1) {
+            warn(`${label(source)}: its ${key} is offset, repeated or rotated; Quick Look may place it slightly differently.`)
+        }
+    })
+
+    if (source.side === THREE.DoubleSide) warn(`${label(source)} is double-sided; USDZ shows only its front faces.`)
+    if (source.vertexColors) warn(`${label(source)} uses vertex colors, which Quick Look ignores.`)
+    if ((source as THREE.MeshPhysicalMaterial).isMeshPhysicalMaterial) {
+        const physical = source as THREE.MeshPhysicalMaterial
+        if (physical.transmission || physical.sheen || physical.iridescence || physical.anisotropy) {
+            warn(`${label(source)}: transmission, sheen, iridescence and anisotropy are not supported in USDZ.`)
+        }
+    }
+    return material as THREE.MeshStandardMaterial
+}
+
+// One single-material mesh per geometry group, sharing the attributes of the original geometry
+function splitByGroups(mesh: THREE.Mesh, materials: THREE.Material[]) {
+    const geometry = mesh.geometry
+    const total = geometry.index?.count ?? geometry.getAttribute('position').count
+    const groups = geometry.groups.length ? geometry.groups : [{ start: 0, count: total, materialIndex: 0 }]
+
+    return groups.flatMap(group => {
+        const material = materials[group.materialIndex ?? 0]
+        if (!material) return []
+        const part = new THREE.BufferGeometry()
+        for (const name in geometry.attributes) part.setAttribute(name, geometry.attributes[name])
+        // groups may run to Infinity
+        const count = Math.min(group.count, total - group.start)
+        const indices = geometry.index
+            ? Array.from({ length: count }, (_, i) => geometry.index!.getX(group.start + i))
+            : Array.from({ length: count }, (_, i) => group.start + i)
+        part.setIndex(indices)
+        const child = new THREE.Mesh(part, material)
+        child.name = `${mesh.name || 'mesh'}-${material.name || group.materialIndex}`
+        return [child]
+    })
+}
+
+/**
+ * Rewrites a product copy (see cloneProduct) in place so USDZExporter can write
+ * all of it: converts materials, splits multi-material meshes, fills in missing
+ * normals and stands the product on the ground plane that AR Quick Look anchors
+ * to. Returns a warning for everything that cannot be represented, and a
+ * cleanup for the materials and geometries created along the way.
+ */
+export function prepareForUsdz(root: THREE.Object3D) {
+    const warnings = new Set<string>()
+    const warn = (message: string) => warnings.add(message)
+    const converted = new Map<THREE.Material, THREE.MeshStandardMaterial>()
+    const created: { dispose: () => void }[] = []
+
+    const convert = (material: THREE.Material, silent: boolean) => {
+        let result = converted.get(material)
+        if (!result) {
+            result = toUsdzMaterial(material, warn, silent)
+            converted.set(material, result)
+            if (result !== material) created.push(result)
+        }
+        return result
+    }
+
+    const meshes: THREE.Mesh[] = []
+    root.traverse(o => {
+        if ((o as THREE.Mesh).isMesh && o.visible) meshes.push(o as THREE.Mesh)
+    })
+
+    root.updateMatrixWorld(true)
+    meshes.forEach(mesh => {
+        const name = `"${mesh.name || 'unnamed mesh'}"`
+        // decal meshes are ours; their unlit material is expected
+        const silent = !!mesh.name.match(/^decal-\d+$/)
+
+        if ((mesh as THREE.SkinnedMesh).isSkinnedMesh || mesh.morphTargetInfluences?.length) {
+            warn(`${name} is animated or morphed; it is exported in its rest pose.`)
+        }
+        if (mesh.matrixWorld.determinant() < 0) warn(`${name} is mirrored (negative scale), which USDZ does not support.`)
+
+        if (!mesh.geometry.getAttribute('normal')) {
+            mesh.geometry = mesh.geometry.clone()
+            mesh.geometry.computeVertexNormals()
+            created.push(mesh.geometry)
+        }
+
+        if (Array.isArray(mesh.material)) {
+            const parts = splitByGroups(mesh, mesh.material.map(m => convert(m, silent)))
+            parts.forEach(part => {
+                mesh.add(part)
+                created.push(part.geometry)
+            })
+            // keep the node for its transform and children; USDZExporter skips meshes it can't write
+            const holder = new THREE.Object3D()
+            holder.name = mesh.name
+            holder.position.copy(mesh.position)
+            holder.quaternion.copy(mesh.quaternion)
+            holder.scale.copy(mesh.scale)
+            holder.userData = mesh.userData
+            holder.add(...mesh.children)
+            mesh.parent?.add(holder)
+            mesh.removeFromParent()
+        } else {
+            mesh.material = convert(mesh.material, silent)
+        }
+    })
+
+    // AR Quick Look puts the scene origin on the detected floor
+    const box = new THREE.Box3().setFromObject(root)
+    if (!box.isEmpty()) root.position.y -= box.min.y
+
+    return {
+        warnings: [...warnings],
+        dispose: () => created.forEach(d => d.dispose()),
+    }
+}
+
+export async function writeUSDZ(root: THREE.Object3D): Promise<Blob> {
+    const exporter = new USDZExporter()
+    // compressed (KTX2) textures are decoded on the GPU before being written as PNG
+    exporter.textureUtils = WebGLTextureUtils
+    const result = await exporter.parseAsync(root, { quickLookCompatible: true, maxTextureSize: USDZ_MAX_TEXTURE_SIZE })
+    return new Blob([result], { type: 'model/vnd.usdz+zip' })
+}
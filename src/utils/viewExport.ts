@@ -0,0 +1,147 @@
+// src/utils/viewExport.ts
+import * as THREE from 'three'
+import { zipSync } from 'fflate'
+import { canvasToBlob, IMAGE_FORMATS, renderImage, type ImageExportOptions } from './imageExport'
+
+/**
+ * A camera position around the model container, in degrees, relative to the
+ * container's own orientation: yaw 0 / pitch 0 looks at its front (+Z side),
+ * positive yaw swings the camera to the right, positive pitch raises it.
+ */
+export type ViewAngle = {
+    label: string
+    yaw: number
+    pitch: number
+}
+
+export const VIEW_PRESETS: ViewAngle[] = [
+    { label: 'Front', yaw: 0, pitch: 0 },
+    { label: 'Back', yaw: 180, pitch: 0 },
+    { label: 'Left', yaw: -90, pitch: 0 },
+    { label: 'Right', yaw: 90, pitch: 0 },
+    { label: '3/4 Left', yaw: -45, pitch: 15 },
+    { label: '3/4 Right', yaw: 45, pitch: 15 },
+    { label: 'Top', yaw: 0, pitch: 89 },
+]
+
+export type ViewExportOptions = ImageExportOptions & {
+    views: ViewAngle[]
+    // also add a labelled grid of every view to the zip
+    contactSheet: boolean
+}
+
+// longest side of one contact sheet cell
+const SHEET_CELL_SIZE = 512
+const SHEET_GAP = 16
+const SHEET_LABEL_HEIGHT = 36
+
+/**
+ * Returns a copy of camera placed on the given angle around the container,
+ * at the camera's current distance from it, looking at the container origin.
+ */
+export function orbitCamera(camera: THREE.Camera, container: THREE.Object3D, view: ViewAngle): THREE.Camera {
+    const cam = camera.clone()
+    const target = container.getWorldPosition(new THREE.Vector3())
+    const distance = camera.getWorldPosition(new THREE.Vector3()).distanceTo(target)
+    const orientation = container.getWorldQuaternion(new THREE.Quaternion())
+
+    // clamp pitch away from the poles so lookAt keeps a usable up vector
+    const yaw = THREE.MathUtils.degToRad(view.yaw)
+    const pitch = THREE.MathUtils.degToRad(THREE.MathUtils.clamp(view.pitch, -89, 89))
+    const offset = new THREE.Vector3(
+        Math.sin(yaw) * Math.cos(pitch),
+        Math.sin(pitch),
+        Math.cos(yaw) * Math.cos(pitch)
+    ).applyQuaternion(orientation)
+
+    cam.position.copy(target).addScaledVector(offset, distance)
+    cam.up.set(0, 1, 0).applyQuaternion(orientation)
+    cam.lookAt(target)
+    cam.updateMatrixWorld(true)
+    return cam
+}
+
+function slugify(label: string) {
+    return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'view'
+}
+
+function downscale(canvas: HTMLCanvasElement, maxSize: number) {
+    const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height))
+    const out = document.createElement('canvas')
+    out.width = Math.max(1, Math.round(canvas.width * scale))
+    out.height = Math.max(1, Math.round(canvas.height * scale))
+    out.getContext('2d')!.drawImage(canvas, 0, 0, out.width, out.height)
+    return out
+}
+
+export function composeContactSheet(cells: { label: string; image: HTMLCanvasElement }[], background: string | null) {
+    const columns = Math.ceil(Math.sqrt(cells.length))
+    const rows = Math.ceil(cells.length / columns)
+    const cellW = Math.max(...cells.map(c => c.image.width))
+    const cellH = Math.max(...cells.map(c => c.image.height))
+
+    const sheet = document.createElement('canvas')
+    sheet.width = columns * cellW + (columns + 1) * SHEET_GAP
+    sheet.height = rows * (cellH + SHEET_LABEL_HEIGHT) + (rows + 1) * SHEET_GAP
+    const ctx = sheet.getContext('2d')!
+
+    const bg = new THREE.Color(background ?? '#ffffff')
+    ctx.fillStyle = `#${bg.getHexString()}`
+    ctx.fillRect(0, 0, sheet.width, sheet.height)
+    // readable labels on dark backgrounds too
+    const lightness = bg.getHSL({ h: 0, s: 0, l: 0 }).l
+    ctx.fillStyle = lightness > 0.5 ? '#111111' : '#eeeeee'
+    ctx.font = '600 20px sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+
+    cells.forEach((cell, i) => {
+        const x = SHEET_GAP + (i % columns) * (cellW + SHEET_GAP)
+        const y = SHEET_GAP + Math.floor(i / columns) * (cellH + SHEET_LABEL_HEIGHT + SHEET_GAP)
+        ctx.drawImage(cell.image, x + (cellW - cell.image.width) / 2, y + (cellH - cell.image.height) / 2)
+        ctx.fillText(cell.label, x + cellW / 2, y + cellH + SHEET_LABEL_HEIGHT / 2)
+    })
+    return sheet
+}
+
+/**
+ * Renders every view with the tiled image path and zips the results, in order,
+ * as 01-front.png, 02-back.png, ... plus contact-sheet.png when requested.
+ */
+export async function renderViewSet(params: {
+    gl: THREE.WebGLRenderer
+    scene: THREE.Scene
+    camera: THREE.Camera
+    container: THREE.Object3D
+    options: ViewExportOptions
+}): Promise<Blob> {
+    const { gl, scene, camera, container, options } = params
+    const { ext } = IMAGE_FORMATS[options.format]
+    const files: Record<string, Uint8Array> = {}
+    const cells: { label: string; image: HTMLCanvasElement }[] = []
+
+    for (const [i, view] of options.views.entries()) {
+        const canvas = renderImage({
+            gl,
+            scene,
+            camera: orbitCamera(camera, container, view),
+            width: options.width,
+            height: options.height,
+            background: options.background,
+        })
+        const blob = await canvasToBlob(canvas, options.format, options.quality)
+        files[`${String(i + 1).padStart(2, '0')}-${slugify(view.label)}.${ext}`] = new Uint8Array(await blob.arrayBuffer())
+        // keep only a thumbnail; full-size renders can be hundreds of MB each
+        if (options.contactSheet) cells.push({ label: view.label, image: downscale(canvas, SHEET_CELL_SIZE) })
+    }
+
+    if (cells.length) {
+        const sheet = composeContactSheet(cells, options.background)
+        const blob = await canvasToBlob(sheet, 'png', 1)
+        files['contact-sheet.png'] = new Uint8Array(await blob.arrayBuffer())
+    }
+
+    // images are already compressed
+    const data = zipSync(files, { level: 0 })
+    return new Blob([data as BlobPart], { type: 'application/zip' })
+}